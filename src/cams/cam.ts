@@ -0,0 +1,247 @@
+import { Sketch } from '../geom/index.js';
+import { GearCutterPenAdapter } from '../gearcutter/gearTooth.js';
+import { PointAndTangent } from '../gearcutter/utils/biarc.js';
+import { drawParametricCurve } from '../gearcutter/utils/parametricCurve.js';
+import { CamMotionSegment, makeCamMotion } from './motion.js';
+
+/** Default tolerance for the arc approximation of cam profiles */
+export const DEFAULT_CAM_TOLERANCE = 0.005;
+
+// diagnostic samples per degree of cam rotation
+const DIAGNOSTIC_SAMPLES = 4;
+
+/**
+ * Translating follower types:
+ * - 'knife' is a knife-edge follower that touches the cam at a single point
+ * - 'roller' has a roller on the end
+ * - 'flat' has a flat face perpendicular to its direction of motion
+ */
+export type CamFollowerType = 'knife' | 'roller' | 'flat';
+
+export interface CamProps {
+  readonly follower: CamFollowerType;
+  /** Radius of the smallest circle around the cam center that touches the cam profile */
+  readonly baseRadius: number;
+  /** Diameter of the roller, for roller followers */
+  readonly rollerDiameter?: number | undefined;
+  /**
+   * Offset of the follower's line of motion from the cam center, in the +y
+   * direction, for knife-edge and roller followers.  Default 0
+   */
+  readonly followerOffset?: number | undefined;
+  /** The follower motion over one turn of the cam, starting at the base circle */
+  readonly motion: readonly CamMotionSegment[];
+  /** Maximum deviation of the cam profile from the exact curve.  Default 0.005 */
+  readonly tolerance?: number | undefined;
+  /** Diameter of the hole in the center of the cam.  Default is no hole */
+  readonly boreDiameter?: number | undefined;
+}
+
+export interface CamResult {
+  /**
+   * The cam, centered on the origin.  The first outline is the cam profile, and the
+   * second is the bore, if there is one.  The profile is only valid if the cam is
+   * not undercut.
+   */
+  readonly cam: Sketch;
+  /**
+   * Get the position of the follower along its line of motion, which is parallel to
+   * the +x axis, when the cam is rotated counter-clockwise by `camDegrees`.  This is
+   * the position of the knife edge, roller center, or face.
+   */
+  followerPosition(camDegrees: number): number;
+  /**
+   * Largest angle in degrees between the follower's line of motion and the normal to
+   * the cam profile at the contact point.  Large pressure angles make the follower
+   * jam.  This is always 0 for flat-faced followers.
+   */
+  readonly maxPressureAngle: number;
+  /**
+   * Smallest radius of curvature of the cam profile where it is convex, or Infinity
+   * if it has no convex curves.  It is negative if the cam is undercut.
+   */
+  readonly minCurvatureRadius: number;
+  /**
+   * True if the follower can't follow the motion program, because the cam profile
+   * would have to loop over itself.  Increase the base radius or make the motion
+   * slower to fix it.
+   */
+  readonly undercut: boolean;
+  /**
+   * For flat-faced followers, the range of positions of the contact point along the
+   * face, relative to the follower's line of motion.  The face must cover this range.
+   */
+  readonly faceContactRange: [number, number] | undefined;
+  /** Diameter of the circle through the highest point on the cam */
+  readonly maxDiameter: number;
+}
+
+interface ProfileSample {
+  readonly pt: PointAndTangent;
+  /** radius of curvature of the profile, positive where convex */
+  readonly radius: number;
+  readonly undercut: boolean;
+  readonly pressureAngle: number;
+  /** contact point along the follower face, for flat-faced followers */
+  readonly faceContact: number;
+}
+
+/**
+ * Design a disc cam for a translating follower.
+ *
+ * The follower moves parallel to the +x axis, and the cam turns counter-clockwise.
+ * At cam angle 0, the follower is at the start of the motion program, touching
+ * the base circle.
+ */
+export function createCam(props: CamProps): CamResult {
+  const follower = props.follower;
+  const baseR = props.baseRadius;
+  const offset = props.followerOffset ?? 0;
+  const tolerance = props.tolerance ?? DEFAULT_CAM_TOLERANCE;
+  const boreDiameter = props.boreDiameter ?? 0;
+  const motion = makeCamMotion(props.motion);
+  let rollerR = 0;
+  if (follower == 'roller') {
+    rollerR = (props.rollerDiameter ?? 0) / 2;
+    if (!(rollerR > 0)) {
+      throw new Error('Roller followers need a roller diameter');
+    }
+  } else if (follower == 'flat') {
+    if (offset != 0) {
+      throw new Error('Flat-faced followers have no offset');
+    }
+  } else if (follower != 'knife') {
+    throw new Error(`Unknown cam follower type ${follower}`);
+  }
+  if (!(baseR > 0)) {
+    throw new Error(`Invalid cam base radius ${baseR}`);
+  }
+  if (!(tolerance > 0)) {
+    throw new Error(`Invalid cam tolerance ${tolerance}`);
+  }
+  if (!(boreDiameter < baseR * 2)) {
+    throw new Error('The bore is too large for the cam');
+  }
+  // radius of the circle traced by the knife edge or roller center at 0 lift
+  const primeR = baseR + rollerR;
+  if (!(Math.abs(offset) < primeR)) {
+    throw new Error(
+      'Follower offset must be less than the prime circle radius'
+    );
+  }
+  const startX =
+    follower == 'flat' ? baseR : Math.sqrt(primeR ** 2 - offset ** 2);
+
+  /**
+   * Get the profile point at a cam angle.  Vectors are calculated in the frame of
+   * the follower (u along its motion, w perpendicular), which turns clockwise
+   * relative to the cam.  The profile is traversed clockwise as theta increases.
+   */
+  const sample = (theta: number): ProfileSample => {
+    const [y, dy, ddy] = motion.at(theta);
+    const c = Math.cos(theta);
+    const s = Math.sin(theta);
+    const toCam = (pu: number, pw: number): [number, number] => [
+      pu * c + pw * s,
+      -pu * s + pw * c,
+    ];
+    if (follower == 'flat') {
+      const f = startX + y;
+      const [x, yy] = toCam(f, -dy);
+      const [tx, ty] = toCam(0, -1);
+      // a flat face can't follow a concave profile
+      return {
+        pt: [x, yy, tx, ty],
+        radius: f + ddy,
+        undercut: f + ddy <= 0,
+        pressureAngle: 0,
+        faceContact: -dy,
+      };
+    }
+    // pitch curve, and its derivatives
+    const a = startX + y;
+    const du = dy + offset;
+    const dw = -a;
+    const cross = du * (-2 * dy - offset) - dw * (ddy - a);
+    const len = Math.sqrt(du * du + dw * dw);
+    const pitchCurvature = -cross / (len * len * len);
+    // outward normal
+    const nu = -dw / len;
+    const nw = du / len;
+    const [x, yy] = toCam(a - nu * rollerR, offset - nw * rollerR);
+    const [tx, ty] = toCam(du / len, dw / len);
+    // The roller can't follow convex curves with less than its own radius
+    return {
+      pt: [x, yy, tx, ty],
+      radius: 1 / pitchCurvature - rollerR,
+      undercut: pitchCurvature * rollerR >= 1,
+      pressureAngle: (Math.atan(du / a) * 180) / Math.PI,
+      faceContact: 0,
+    };
+  };
+
+  // diagnostics
+  let maxPressureAngle = 0;
+  let minCurvatureRadius = Infinity;
+  let undercut = false;
+  let minFace = Infinity;
+  let maxFace = -Infinity;
+  let maxR = 0;
+  const nSamples = 360 * DIAGNOSTIC_SAMPLES;
+  for (let i = 0; i < nSamples; ++i) {
+    const theta = (i * Math.PI * 2) / nSamples;
+    const sampled = sample(theta);
+    const { pt, radius, pressureAngle, faceContact } = sampled;
+    maxPressureAngle = Math.max(maxPressureAngle, Math.abs(pressureAngle));
+    minFace = Math.min(minFace, faceContact);
+    maxFace = Math.max(maxFace, faceContact);
+    maxR = Math.max(maxR, Math.sqrt(pt[0] * pt[0] + pt[1] * pt[1]));
+    if (sampled.undercut) {
+      undercut = true;
+      minCurvatureRadius = Math.min(minCurvatureRadius, radius);
+    } else if (radius > 0) {
+      minCurvatureRadius = Math.min(minCurvatureRadius, radius);
+    }
+  }
+
+  const breaks = motion.breaks;
+  return {
+    cam: (pen) => {
+      // Draw counter-clockwise, so in order of decreasing cam angle
+      const gcPen = new GearCutterPenAdapter(pen);
+      const curve = (t: number): PointAndTangent => {
+        const [x, y, tx, ty] = sample(Math.PI * 2 - t).pt;
+        return [x, y, -tx, -ty];
+      };
+      for (let i = breaks.length - 1; i > 0; --i) {
+        const t0 = Math.PI * 2 - breaks[i];
+        const t1 = Math.PI * 2 - breaks[i - 1];
+        const degrees = ((t1 - t0) * 180) / Math.PI;
+        drawParametricCurve(
+          gcPen,
+          curve,
+          t0,
+          t1,
+          Math.max(degrees, 8),
+          tolerance,
+          i == breaks.length - 1
+        );
+      }
+      if (boreDiameter > 0) {
+        pen.circle(0, 0, boreDiameter);
+      }
+    },
+    followerPosition: (camDegrees) => {
+      let theta = ((camDegrees % 360) * Math.PI) / 180;
+      if (theta < 0) {
+        theta += Math.PI * 2;
+      }
+      return startX + motion.at(theta)[0];
+    },
+    maxPressureAngle,
+    minCurvatureRadius,
+    undercut,
+    faceContactRange: follower == 'flat' ? [minFace, maxFace] : undefined,
+    maxDiameter: maxR * 2,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Normalized follower motion for a rise, from 0 to 1 over 0 <= u <= 1:
+ * - 'cycloidal' has zero velocity and acceleration at both ends
+ * - 'harmonic' (simple harmonic) has zero velocity at both ends, but its
+ *   acceleration jumps there
+ * - 'polynomial' is the 3-4-5 polynomial, with zero velocity and acceleration at
+ *   both ends
+ */
+export type CamMotionLaw = 'cycloidal' | 'harmonic' | 'polynomial';
+
+export type CamMotionSegment =
+  | {
+      readonly type: 'dwell';
+      /** Cam rotation during the segment, in degrees */
+      readonly degrees: number;
+    }
+  | {
+      readonly type: 'rise' | 'fall';
+      /** Cam rotation during the segment, in degrees */
+      readonly degrees: number;
+      /** Distance the follower moves */
+      readonly lift: number;
+      /** Default 'cycloidal' */
+      readonly law?: CamMotionLaw | undefined;
+    };
+
+/**
+ * Follower displacement and its first and second derivatives with respect to the
+ * cam angle in radians
+ */
+export type CamMotionState = [number, number, number];
+
+/**
+ * A motion program, evaluated over one turn of the cam
+ */
+export interface CamMotion {
+  /** Cam angles in radians where each segment starts, and 2*PI at the end */
+  readonly breaks: readonly number[];
+  /** Get the follower motion at a cam angle in radians, from 0 to 2*PI */
+  at(theta: number): CamMotionState;
+}
+
+/** Get the normalized displacement, velocity, and acceleration of a motion law */
+function evalLaw(law: CamMotionLaw, u: number): CamMotionState {
+  switch (law) {
+    case 'cycloidal': {
+      const a = Math.PI * 2 * u;
+      return [
+        u - Math.sin(a) / (Math.PI * 2),
+        1 - Math.cos(a),
+        Math.PI * 2 * Math.sin(a),
+      ];
+    }
+    case 'harmonic': {
+      const a = Math.PI * u;
+      return [
+        (1 - Math.cos(a)) / 2,
+        (Math.PI / 2) * Math.sin(a),
+        ((Math.PI * Math.PI) / 2) * Math.cos(a),
+      ];
+    }
+    case 'polynomial': {
+      const u2 = u * u;
+      const u3 = u2 * u;
+      return [
+        u3 * (10 - 15 * u + 6 * u2),
+        30 * u2 * (1 - 2 * u + u2),
+        60 * u * (1 - 3 * u + 2 * u2),
+      ];
+    }
+    default:
+      throw new Error(`Unknown cam motion law ${law}`);
+  }
+}
+
+/**
+ * Check a motion program and prepare it for evaluation.  The segments must cover
+ * exactly one turn, and the follower must end where it starts, without going below
+ * its starting position.
+ */
+export function makeCamMotion(
+  segments: readonly CamMotionSegment[]
+): CamMotion {
+  if (!segments.length) {
+    throw new Error('A cam motion program must have at least one segment');
+  }
+  const breaks = [0];
+  const starts: number[] = [];
+  let total = 0;
+  let y = 0;
+  for (const seg of segments) {
+    if (!(seg.degrees > 0)) {
+      throw new Error(`Invalid cam motion segment length ${seg.degrees}`);
+    }
+    starts.push(y);
+    if (seg.type == 'rise' || seg.type == 'fall') {
+      if (!(seg.lift >= 0)) {
+        throw new Error(`Invalid cam motion lift ${seg.lift}`);
+      }
+      y += seg.type == 'rise' ? seg.lift : -seg.lift;
+    } else if (seg.type != 'dwell') {
+      const bad: { type: string } = seg;
+      throw new Error(`Unknown cam motion segment type ${bad.type}`);
+    }
+    if (y < -1e-9) {
+      throw new Error(
+        'The cam motion program goes below its starting position'
+      );
+    }
+    total += seg.degrees;
+    breaks.push((total * Math.PI) / 180);
+  }
+  if (Math.abs(total - 360) > 1e-6) {
+    throw new Error(`The cam motion program covers ${total} degrees, not 360`);
+  }
+  if (Math.abs(y) > 1e-9) {
+    throw new Error('The cam motion program must end where it starts');
+  }
+  breaks[breaks.length - 1] = Math.PI * 2;
+
+  return {
+    breaks,
+    at(theta) {
+      let i = 0;
+      while (i < segments.length - 1 && theta >= breaks[i + 1]) {
+        ++i;
+      }
+      const seg = segments[i];
+      if (seg.type == 'dwell') {
+        return [starts[i], 0, 0];
+      }
+      const beta = breaks[i + 1] - breaks[i];
+      const u = Math.min(Math.max((theta - breaks[i]) / beta, 0), 1);
+      const h = seg.type == 'rise' ? seg.lift : -seg.lift;
+      const [s, v, a] = evalLaw(seg.law ?? 'cycloidal', u);
+      return [starts[i] + h * s, (h * v) / beta, (h * a) / (beta * beta)];
+    },
+  };
+}
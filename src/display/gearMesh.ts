@@ -0,0 +1,237 @@
+import { GearPairResult } from '../gearcutter/index.js';
+import { ID2D } from '../geom/matrix.js';
+import { PolylinePen } from '../geom/polylinePen.js';
+import { Sketch } from '../geom/types.js';
+import { SvgDrawProps, SvgRecorder, SvgRenderProps } from './svg.js';
+
+export interface GearMeshViewProps {
+  /**
+   * Gaps between the gear and pinion that are smaller than this are highlighted.
+   * Default is 5% of the module
+   */
+  readonly closeApproach?: number | undefined;
+  /** Number of animation frames per tooth.  Default 24 */
+  readonly framesPerTooth?: number | undefined;
+  /** Seconds it takes for the gear to turn by one tooth.  Default 2 */
+  readonly secondsPerTooth?: number | undefined;
+}
+
+export const DEFAULT_MESH_CLOSE_APPROACH_MODS = 0.05;
+export const DEFAULT_MESH_FRAMES_PER_TOOTH = 24;
+export const DEFAULT_MESH_SECONDS_PER_TOOTH = 2;
+
+const CLOSE_APPROACH_STYLE: SvgDrawProps = {
+  fill: 'orange',
+  stroke: 'orange',
+  strokeWidth: 0.1,
+};
+const INTERFERENCE_STYLE: SvgDrawProps = {
+  fill: 'red',
+  stroke: 'red',
+  strokeWidth: 0.1,
+};
+
+/**
+ * Render a gear pair in mesh as an animated SVG.
+ *
+ * The gear is centered on the origin, and the pinion is centered at (`centerDistance`, 0).
+ * Both rotate at the correct ratio.  Places where the gap between them is smaller than
+ * `closeApproach` are marked in orange, and places where they overlap by more than the
+ * tolerance of the sampled outlines are marked in red.
+ *
+ * @param centerDistance distance between the gear and pinion centers.  Default is the
+ *      distance at which the pitch circles touch
+ */
+export function renderGearMesh(
+  result: GearPairResult,
+  centerDistance: number | undefined,
+  svgProps: SvgRenderProps,
+  viewProps?: GearMeshViewProps | undefined
+): string {
+  const { gearTeeth, pinionTeeth } = result;
+  const isInternal = result.isInternalGear;
+  const module = result.gearPitchDiameter / gearTeeth;
+  const cd =
+    centerDistance ??
+    (result.gearPitchDiameter +
+      (isInternal ? -result.pinionPitchDiameter : result.pinionPitchDiameter)) *
+      0.5;
+  if (!(cd > 0)) {
+    throw new Error(`Invalid center distance ${cd}`);
+  }
+  const closeApproach =
+    viewProps?.closeApproach ?? DEFAULT_MESH_CLOSE_APPROACH_MODS * module;
+  const nFrames = Math.max(
+    Math.round(viewProps?.framesPerTooth ?? DEFAULT_MESH_FRAMES_PER_TOOTH),
+    1
+  );
+  const seconds = viewProps?.secondsPerTooth ?? DEFAULT_MESH_SECONDS_PER_TOOTH;
+  if (!(seconds > 0)) {
+    throw new Error(`Invalid animation duration ${seconds}`);
+  }
+
+  // Both outlines have a tooth centered on the +x axis.  The gear tooth points
+  // at the pinion, so an external pinion is turned to put a tooth space there.
+  // An internal gear has a tooth space on the +x axis.
+  const pinionPhase = isInternal ? 0 : 180 + 180 / pinionTeeth;
+  // In one animation cycle, the gear turns by one tooth, and so does the pinion
+  const gearTurn = 360 / gearTeeth;
+  const pinionTurn = (isInternal ? 360 : -360) / pinionTeeth;
+  const gearAt = (t: number) => ID2D.rotate(gearTurn * t);
+  const pinionAt = (t: number) =>
+    ID2D.translate(cd, 0).rotate(pinionPhase + pinionTurn * t);
+
+  const recorder = new SvgRecorder(svgProps);
+  recorder.drawRotating(result.gear, 0, 0, 0, gearTurn, seconds);
+  recorder.drawRotating(
+    ID2D.translate(cd, 0).rotate(pinionPhase).mapSketch(result.pinion),
+    cd,
+    0,
+    0,
+    pinionTurn,
+    seconds
+  );
+
+  const sampleTol = module * 1e-4;
+  const overlapTol = module * 2e-3;
+  const markerSize = module * 0.2;
+  const gearTipRadius = result.gearTipDiameter * 0.5;
+  const pinionTipRadius = result.pinionTipDiameter * 0.5;
+  for (let frame = 0; frame < nFrames; ++frame) {
+    // mark the positions in the middle of each frame
+    const t = (frame + 0.5) / nFrames;
+    const gearPen = new PolylinePen(sampleTol);
+    gearAt(t).mapSketch(result.gear)(gearPen);
+    const pinionPen = new PolylinePen(sampleTol);
+    pinionAt(t).mapSketch(result.pinion)(pinionPen);
+
+    // Only the parts of the gear that can reach the pinion teeth, and the
+    // parts of the pinion that can reach the gear teeth, need to be checked
+    const reach = pinionTipRadius + closeApproach;
+    const gearSegs = gearPen.segments(
+      (x, y) => (x - cd) * (x - cd) + y * y <= reach * reach
+    );
+    // Points to the left of the gear outline are inside it
+    const gearSide = gearPen.area() >= 0 ? 1 : -1;
+    const closeMarks: [number, number][] = [];
+    const overlapMarks: [number, number][] = [];
+    const addMark = (best: ClosePoint) =>
+      (best.overlap ? overlapMarks : closeMarks).push([
+        (best.x + best.nearx) * 0.5,
+        (best.y + best.neary) * 0.5,
+      ]);
+    for (const path of pinionPen.paths) {
+      let best: ClosePoint | null = null;
+      for (let i = 0; i < path.length; i += 2) {
+        const x = path[i];
+        const y = path[i + 1];
+        const r = Math.sqrt(x * x + y * y);
+        const near = (
+          isInternal
+            ? r < gearTipRadius - closeApproach
+            : r > gearTipRadius + closeApproach
+        )
+          ? null
+          : nearestPoint(gearSegs, x, y);
+        const overlap =
+          !!near &&
+          near.side * gearSide > 0 !== isInternal &&
+          near.dist > overlapTol;
+        if (best && (!near || best.overlap !== overlap)) {
+          addMark(best);
+          best = null;
+        }
+        if (!near || (!overlap && near.dist >= closeApproach)) {
+          continue;
+        }
+        // mark the closest point of each close approach, or the deepest point of
+        // each overlap
+        if (
+          !best ||
+          (overlap ? near.dist > best.dist : near.dist < best.dist)
+        ) {
+          best = {
+            x,
+            y,
+            nearx: near.x,
+            neary: near.y,
+            dist: near.dist,
+            overlap,
+          };
+        }
+      }
+      if (best) {
+        addMark(best);
+      }
+    }
+    const markerSketch =
+      (marks: [number, number][]): Sketch =>
+      (pen) => {
+        for (const [x, y] of marks) {
+          pen.circle(x, y, markerSize);
+        }
+      };
+    recorder.drawFrame(
+      markerSketch(closeMarks),
+      frame,
+      nFrames,
+      seconds,
+      CLOSE_APPROACH_STYLE
+    );
+    recorder.drawFrame(
+      markerSketch(overlapMarks),
+      frame,
+      nFrames,
+      seconds,
+      INTERFERENCE_STYLE
+    );
+  }
+  return recorder.getSvgText();
+}
+
+interface ClosePoint {
+  x: number;
+  y: number;
+  nearx: number;
+  neary: number;
+  dist: number;
+  overlap: boolean;
+}
+
+/**
+ * Find the point on a set of line segments that is nearest to (x,y)
+ *
+ * @param segs segments as a flat array of (x0, y0, x1, y1) coordinates
+ * @returns the nearest point, the distance to it, and the side of the segment
+ *      that (x,y) is on: positive for left and negative for right
+ */
+function nearestPoint(
+  segs: number[],
+  x: number,
+  y: number
+): { x: number; y: number; dist: number; side: number } | null {
+  let bestd2 = Number.POSITIVE_INFINITY;
+  let ret: { x: number; y: number; dist: number; side: number } | null = null;
+  for (let i = 0; i < segs.length; i += 4) {
+    const x0 = segs[i];
+    const y0 = segs[i + 1];
+    const dx = segs[i + 2] - x0;
+    const dy = segs[i + 3] - y0;
+    const len2 = dx * dx + dy * dy;
+    let t = len2 > 0 ? ((x - x0) * dx + (y - y0) * dy) / len2 : 0;
+    t = Math.max(0, Math.min(1, t));
+    const nx = x0 + dx * t;
+    const ny = y0 + dy * t;
+    const d2 = (x - nx) * (x - nx) + (y - ny) * (y - ny);
+    if (d2 < bestd2) {
+      bestd2 = d2;
+      ret = {
+        x: nx,
+        y: ny,
+        dist: Math.sqrt(d2),
+        side: dx * (y - y0) - dy * (x - x0),
+      };
+    }
+  }
+  return ret;
+}
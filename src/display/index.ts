@@ -3,11 +3,14 @@ import { OCPromise, ShaperProps } from '../oc/index.js';
 import { displayPart, PartExportFormat } from './displayPart.js';
 import { Memoizer, OCMemoizer } from './memoizer.js';
 import { SvgRecorder, SvgRenderProps } from './svg.js';
+import { GearMeshViewProps, renderGearMesh } from './gearMesh.js';
+import { GearPairResult } from '../gearcutter/index.js';
 import { getFileServer } from './fileServer.js';
 import * as tslab from 'tslab';
 
 export { SvgRenderProps } from './svg.js';
 export { Memoizer } from './memoizer.js';
+export type { GearMeshViewProps } from './gearMesh.js';
 export type { PartExportFormat } from './displayPart.js';
 export { FileServer, getFileServer, resetFileServer } from './fileServer.js';
 
@@ -23,6 +26,19 @@ export interface CadDisplay {
     exportFormats?: Partial<Record<PartExportFormat, string>>
   ): void;
   sketch(sketch: Sketch): void;
+  /**
+   * Display an animation of a gear pair in mesh, with close approaches and overlaps highlighted
+   *
+   * @param result The gear pair to display
+   * @param centerDistance Distance between the gear and pinion centers.  Default is the distance at
+   *    which the pitch circles touch.
+   * @param viewProps Options for the animation
+   */
+  gearMesh(
+    result: GearPairResult,
+    centerDistance?: number | undefined,
+    viewProps?: GearMeshViewProps | undefined
+  ): void;
 }
 
 export async function getDisplay(
@@ -31,15 +47,20 @@ export async function getDisplay(
 ): Promise<CadDisplay> {
   const oc = await OCPromise;
   const fileServer = await getFileServer();
+  const displaySvg = (svgText: string) => {
+    const svgBuffer = Buffer.from(svgText, 'utf8');
+    const svgUrl = fileServer.storeFile(svgBuffer, 'image/svg+xml');
+    tslab.display.html(`<div><img src="${svgUrl}" style="max-width: 100%; height: auto; max-height: 300px" /></div>`);
+  };
   return {
     part: (part: Part, exports) => displayPart(oc, fileServer, shaperProps, part, exports),
     sketch: (sketch: Sketch) => {
       const recorder = new SvgRecorder(svgProps);
       recorder.draw(sketch);
-      const svgText = recorder.getSvgText();
-      const svgBuffer = Buffer.from(svgText, 'utf8');
-      const svgUrl = fileServer.storeFile(svgBuffer, 'image/svg+xml');
-      tslab.display.html(`<div><img src="${svgUrl}" style="max-width: 100%; height: auto; max-height: 300px" /></div>`);
+      displaySvg(recorder.getSvgText());
+    },
+    gearMesh: (result: GearPairResult, centerDistance, viewProps) => {
+      displaySvg(renderGearMesh(result, centerDistance, svgProps, viewProps));
     },
   };
 }
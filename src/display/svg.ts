@@ -87,13 +87,115 @@ export class SvgRecorder {
 
   draw(sketch: Sketch) {
     const pen = new SvgPen(this.props, this.buf);
-    const scale = this.props.scale ?? DEFAULT_SVG_SCALE;
-    const xf = new Matrix2D([Math.abs(scale), 0, 0], [0, -scale, 0], [0, 0, 1]);
-    const xfpen = xf.mapPen(pen);
+    const xfpen = this.getXForm().mapPen(pen);
     sketch(xfpen);
     this.mergeBounds(pen.finish());
   }
 
+  /**
+   * Draw a sketch that rotates continuously around a center point, repeating forever
+   *
+   * @param cx center x, in sketch coordinates
+   * @param cy center y, in sketch coordinates
+   * @param fromDegrees rotation at the start of each repetition.  Positive rotations
+   *      move the sketch +X axis toward +Y
+   * @param toDegrees rotation at the end of each repetition
+   * @param seconds duration of each repetition
+   * @param style path style to use instead of `pathStyle`
+   */
+  drawRotating(
+    sketch: Sketch,
+    cx: number,
+    cy: number,
+    fromDegrees: number,
+    toDegrees: number,
+    seconds: number,
+    style?: SvgDrawProps | undefined
+  ) {
+    const xf = this.getXForm();
+    const [scx, scy] = xf.mapPoint(cx, cy);
+    // rotations are reversed when the y axis is flipped
+    const dir = (this.props.scale ?? DEFAULT_SVG_SCALE) > 0 ? -1 : 1;
+    const startLen = this.buf.length;
+    this.buf.push(
+      `<g>\n<animateTransform attributeName="transform" type="rotate"` +
+        ` from="${fromDegrees * dir} ${scx} ${scy}" to="${
+          toDegrees * dir
+        } ${scx} ${scy}"` +
+        ` dur="${seconds}s" repeatCount="indefinite"/>\n`
+    );
+    const pen = new SvgPen(this.getProps(style), this.buf);
+    sketch(xf.mapPen(pen));
+    const bounds = pen.finish();
+    if (this.buf.length === startLen + 1) {
+      // nothing was drawn
+      this.buf.length = startLen;
+      return;
+    }
+    this.buf.push('</g>\n');
+    // the bounds must include every rotation of the sketch
+    const [minx, miny, maxx, maxy] = bounds!;
+    const r = Math.sqrt(
+      Math.max((minx - scx) ** 2, (maxx - scx) ** 2) +
+        Math.max((miny - scy) ** 2, (maxy - scy) ** 2)
+    );
+    this.mergeBounds([scx - r, scy - r, scx + r, scy + r]);
+  }
+
+  /**
+   * Draw one frame of a repeating animation.  The sketch is visible
+   * only while its frame is current.
+   *
+   * @param frame index of the frame, from 0 to `nFrames`-1
+   * @param nFrames number of frames in each repetition
+   * @param seconds duration of each repetition
+   * @param style path style to use instead of `pathStyle`
+   */
+  drawFrame(
+    sketch: Sketch,
+    frame: number,
+    nFrames: number,
+    seconds: number,
+    style?: SvgDrawProps | undefined
+  ) {
+    const start = frame / nFrames;
+    const end = (frame + 1) / nFrames;
+    let values: string;
+    let keyTimes: string;
+    if (frame <= 0) {
+      values = 'visible;hidden';
+      keyTimes = `0;${end}`;
+    } else {
+      values = 'hidden;visible;hidden';
+      keyTimes = `0;${start};${end}`;
+    }
+    const startLen = this.buf.length;
+    this.buf.push(
+      `<g visibility="hidden">\n<animate attributeName="visibility" calcMode="discrete"` +
+        ` values="${values}" keyTimes="${keyTimes}"` +
+        ` dur="${seconds}s" repeatCount="indefinite"/>\n`
+    );
+    const pen = new SvgPen(this.getProps(style), this.buf);
+    sketch(this.getXForm().mapPen(pen));
+    const bounds = pen.finish();
+    if (this.buf.length === startLen + 1) {
+      // nothing was drawn
+      this.buf.length = startLen;
+      return;
+    }
+    this.buf.push('</g>\n');
+    this.mergeBounds(bounds);
+  }
+
+  private getXForm(): Matrix2D {
+    const scale = this.props.scale ?? DEFAULT_SVG_SCALE;
+    return new Matrix2D([Math.abs(scale), 0, 0], [0, -scale, 0], [0, 0, 1]);
+  }
+
+  private getProps(style: SvgDrawProps | undefined): SvgRenderProps {
+    return style ? { ...this.props, pathStyle: style } : this.props;
+  }
+
   private mergeBounds(bounds: [number, number, number, number] | null) {
     if (!this.bounds) {
       this.bounds = bounds;
@@ -0,0 +1,379 @@
+import { Pen, CutCurve } from './types.js';
+import { biArcApproximate, PointAndTangent } from './utils/biarc.js';
+import { searchForFloat } from './utils/floatBinarySearch.js';
+import { drawBiArcs } from './utils/parametricCurve.js';
+
+/**
+ * Parameters for the cut made by a circular arc on a cutter that moves along y while
+ * the gear turns counter-clockwise, like the cutters in [[ToothCutter]]
+ */
+interface ArcCutParams {
+  /** arc center at t=0 */
+  readonly cx: number;
+  readonly cy: number;
+  readonly radius: number;
+  /**
+   * The cutter moves in y by pitchRadius per radian of gear rotation, so it
+   * rolls on the gear's pitch circle at (pitchRadius, 0)
+   */
+  readonly pitchRadius: number;
+  readonly arcTolerance: number;
+}
+
+/**
+ * The cut made by the inside of an arc on the cutter.
+ *
+ * At each moment, the arc cuts at the point where its normal passes through
+ * the pitch point, so the points are parameterized by `psi`, the direction of the normal
+ * from the arc center.
+ *
+ * Each ArcCut is a section of the cut in which the angle around the gear increases
+ * or decreases monotonically.  Use [[makeArcCuts]] to get all the sections for an arc.
+ */
+export class ArcCut implements CutCurve {
+  private readonly params: ArcCutParams;
+  private readonly psiA: number;
+  private readonly psiB: number;
+  readonly thetaA: number;
+  readonly thetaB: number;
+
+  constructor(params: ArcCutParams, psiA: number, psiB: number) {
+    this.params = params;
+    this.psiA = psiA;
+    this.psiB = psiB;
+    this.thetaA = getThetaForPsi(params, psiA);
+    this.thetaB = getThetaForPsi(params, psiB);
+  }
+
+  getDiscontinuityThetas(_minTheta: number, _maxTheta: number): number[] {
+    return [];
+  }
+
+  getR(theta: number): number {
+    const [x, y] = getCutterPoint(this.params, this.getPsiForTheta(theta));
+    return Math.sqrt(x * x + y * y);
+  }
+
+  drawSegment(
+    pen: Pen,
+    thetaFrom: number,
+    thetaTo: number,
+    doInitialMove: boolean
+  ): void {
+    const psiFrom = this.getPsiForTheta(thetaFrom);
+    const psiTo = this.getPsiForTheta(thetaTo);
+    const dir = psiTo < psiFrom ? -1 : 1;
+    const pt0 = this.getPointAndTangent(psiFrom, dir);
+    const pt1 = this.getPointAndTangent(psiTo, dir);
+    if (doInitialMove) {
+      pen.moveTo(pt0[0], pt0[1]);
+    } else {
+      pen.arcTo(pt0[0], pt0[1], 0);
+    }
+    const samples = [pt0];
+    this.getApproxSamples(samples, psiFrom, pt0, psiTo, pt1, dir, 0);
+    // Biarcs can't follow inflections, so the samples are split into runs that
+    // turn in one direction.  Short spans with inflections are drawn as lines.
+    let runStart = 0;
+    let prevTurn = 0;
+    for (let i = 1; i <= samples.length; ++i) {
+      let inflected = false;
+      let turn = prevTurn;
+      if (i < samples.length) {
+        inflected = isInflected(samples[i - 1], samples[i]);
+        const [, , tx0, ty0] = samples[i - 1];
+        const [, , tx1, ty1] = samples[i];
+        turn = Math.sign(tx0 * ty1 - ty0 * tx1) || prevTurn;
+      }
+      if (i == samples.length || inflected || turn * prevTurn < 0) {
+        drawBiArcs(
+          pen,
+          biArcApproximate(samples.slice(runStart, i), this.params.arcTolerance)
+        );
+        runStart = i - 1;
+        if (inflected) {
+          pen.arcTo(samples[i][0], samples[i][1], 0);
+          runStart = i;
+        }
+        turn = 0;
+      }
+      prevTurn = turn;
+    }
+  }
+
+  private getApproxSamples(
+    out: PointAndTangent[],
+    psiStart: number,
+    ptstart: PointAndTangent,
+    psiEnd: number,
+    ptend: PointAndTangent,
+    dir: number,
+    depth: number
+  ) {
+    const psiMid = psiStart + (psiEnd - psiStart) * 0.5;
+    if (psiMid == psiStart || psiMid == psiEnd || depth > 40) {
+      out.push(ptend);
+      return;
+    }
+    const ptmid = this.getPointAndTangent(psiMid, dir);
+    const [x0, y0] = ptstart;
+    const [x1, y1] = ptend;
+    const [xm, ym] = ptmid;
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const mag2 = dx * dx + dy * dy;
+    let dev = (xm - x0) * dy - (ym - y0) * dx; // deviation * mag(dx,dy)
+    dev = (dev * dev) / mag2; // deviation^2
+    // The tangents must not turn too much between samples
+    const [, , tx0, ty0] = ptstart;
+    const [, , tx1, ty1] = ptend;
+    const tangentDot = tx0 * tx1 + ty0 * ty1;
+    // Spans with inflections must be short enough to draw as lines
+    const inflectionDev = isInflected(ptstart, ptend)
+      ? Math.max(Math.abs(tx0 * dy - ty0 * dx), Math.abs(tx1 * dy - ty1 * dx))
+      : 0;
+    if (
+      depth < 4 ||
+      !(dev <= this.params.arcTolerance * this.params.arcTolerance * 0.25) ||
+      tangentDot < 0.95 ||
+      inflectionDev > this.params.arcTolerance
+    ) {
+      this.getApproxSamples(
+        out,
+        psiStart,
+        ptstart,
+        psiMid,
+        ptmid,
+        dir,
+        depth + 1
+      );
+      this.getApproxSamples(out, psiMid, ptmid, psiEnd, ptend, dir, depth + 1);
+    } else {
+      out.push(ptend);
+    }
+  }
+
+  /**
+   * Get a point on the cut, with the tangent pointing in the direction of travel
+   *
+   * @param dir direction of travel in psi: 1 or -1
+   */
+  private getPointAndTangent(psi: number, dir: number): PointAndTangent {
+    const [x, y, tx, ty] = getGearPointAndDirection(this.params, psi);
+    // Determine the direction of travel from a nearby point.  It may not be
+    // the direction of the arc center's motion, because the cut can have cusps.
+    const lo = Math.min(this.psiA, this.psiB);
+    const hi = Math.max(this.psiA, this.psiB);
+    const step = (hi - lo) * 1e-6 * dir;
+    let sign = 1;
+    let psi2 = psi + step;
+    if (psi2 < lo || psi2 > hi) {
+      // look behind instead
+      psi2 = psi - step;
+      sign = -1;
+    }
+    const [x2, y2] = getGearPointAndDirection(this.params, psi2);
+    sign *= Math.sign((x2 - x) * tx + (y2 - y) * ty) || 1;
+    return [x, y, tx * sign, ty * sign];
+  }
+
+  private getPsiForTheta(theta: number): number {
+    const { psiA, psiB, thetaA, thetaB } = this;
+    if (thetaA == thetaB) {
+      return psiA;
+    }
+    const increasing = thetaB > thetaA;
+    const [lo, hi] = searchForFloat(
+      0,
+      1,
+      (f) =>
+        getThetaForPsi(this.params, psiA + (psiB - psiA) * f) <= theta ===
+        increasing
+    );
+    const thetaLo = getThetaForPsi(this.params, psiA + (psiB - psiA) * lo);
+    const thetaHi = getThetaForPsi(this.params, psiA + (psiB - psiA) * hi);
+    let interp = 0.5;
+    if (thetaHi != thetaLo) {
+      interp = Math.max((theta - thetaLo) / (thetaHi - thetaLo), 0.0);
+      interp = Math.min(interp, 1.0);
+    }
+    return psiA + (psiB - psiA) * (lo + (hi - lo) * interp);
+  }
+}
+
+/**
+ * Make the cuts for an arc on a cutter
+ *
+ * @param x0 arc start x at t=0
+ * @param y0 arc start y at t=0
+ * @param x1 arc end x at t=0
+ * @param y1 arc end y at t=0
+ * @param turn arc turn in radians, non-zero
+ * @param pitchRadius pitch radius of the gear
+ * @param arcTolerance tolerance for the arc approximation of the cut
+ * @returns the cuts.  Each one covers the angles from `thetaA` to `thetaB`
+ */
+export function makeArcCuts(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  turn: number,
+  pitchRadius: number,
+  arcTolerance: number
+): ArcCut[] {
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const cdfac = 0.5 / Math.tan(turn * 0.5);
+  let cx = (x0 + x1) * 0.5 - dy * cdfac;
+  const cy = (y0 + y1) * 0.5 + dx * cdfac;
+  const radius = Math.sqrt((x0 - cx) * (x0 - cx) + (y0 - cy) * (y0 - cy));
+  if (cx - radius <= 0) {
+    throw new Error('x <= 0 is not supported in GearCutter');
+  }
+  // When the center is on the pitch line, the whole arc cuts at the same moment.
+  // Move it slightly to avoid dividing by zero.
+  if (Math.abs(cx - pitchRadius) < pitchRadius * 1e-10) {
+    cx = pitchRadius * (1 + 1e-10);
+  }
+  const params: ArcCutParams = {
+    cx,
+    cy,
+    radius,
+    pitchRadius,
+    arcTolerance,
+  };
+
+  // The arc's normals point from psiStart to psiStart + span
+  let psiStart = Math.atan2(y0 - cy, x0 - cx);
+  const span = Math.abs(turn);
+  if (turn < 0) {
+    psiStart -= span;
+  }
+  // Limit the cuts to half a turn of the gear on either side of the moment when
+  // the arc center crosses the pitch line.  That happens at |tan(psi)| <= limit
+  const limit = (Math.PI * pitchRadius) / Math.abs(cx - pitchRadius);
+  const beta = Math.atan(limit);
+  const ranges: [number, number][] = [];
+  for (const center of [0, Math.PI]) {
+    // find the parts of the span within beta of this direction
+    let rel = center - psiStart;
+    rel -= Math.floor(rel / (Math.PI * 2)) * Math.PI * 2;
+    for (const base of [rel - Math.PI * 2, rel, rel + Math.PI * 2]) {
+      const lo = Math.max(base - beta, 0);
+      const hi = Math.min(base + beta, span);
+      if (lo < hi) {
+        ranges.push([psiStart + lo, psiStart + hi]);
+      }
+    }
+  }
+
+  const ret: ArcCut[] = [];
+  for (const [psiLo, psiHi] of ranges) {
+    // split the range into sections where theta is monotonic
+    const n = 64;
+    const psis: number[] = [];
+    for (let i = 0; i <= n; ++i) {
+      psis.push(psiLo + ((psiHi - psiLo) * i) / n);
+    }
+    let sectionStart = psiLo;
+    let prevDir = 0;
+    for (let i = 1; i <= n; ++i) {
+      const dir = Math.sign(
+        getThetaForPsi(params, psis[i]) - getThetaForPsi(params, psis[i - 1])
+      );
+      if (prevDir && dir && dir != prevDir) {
+        // find the extreme theta between i-2 and i
+        let lo = psis[Math.max(i - 2, 0)];
+        let hi = psis[i];
+        for (let j = 0; j < 60; ++j) {
+          const m1 = lo + (hi - lo) / 3;
+          const m2 = hi - (hi - lo) / 3;
+          const t1 = getThetaForPsi(params, m1) * prevDir;
+          const t2 = getThetaForPsi(params, m2) * prevDir;
+          if (t1 < t2) {
+            lo = m1;
+          } else {
+            hi = m2;
+          }
+        }
+        const extreme = (lo + hi) * 0.5;
+        if (extreme > sectionStart) {
+          ret.push(new ArcCut(params, sectionStart, extreme));
+          sectionStart = extreme;
+        }
+      }
+      if (dir) {
+        prevDir = dir;
+      }
+    }
+    if (psiHi > sectionStart) {
+      ret.push(new ArcCut(params, sectionStart, psiHi));
+    }
+  }
+  return ret;
+}
+
+/**
+ * Determine whether the path between two samples has an inflection, i.e., the
+ * tangents are on the same side of the line between the points
+ */
+function isInflected(pt0: PointAndTangent, pt1: PointAndTangent): boolean {
+  const [x0, y0, tx0, ty0] = pt0;
+  const [x1, y1, tx1, ty1] = pt1;
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  return (tx0 * dy - ty0 * dx) * (tx1 * dy - ty1 * dx) > 0;
+}
+
+/**
+ * Time, in radians of gear rotation, at which the normal in direction `psi` passes through
+ * the pitch point
+ */
+function getTimeForPsi(params: ArcCutParams, psi: number): number {
+  const { cx, cy, pitchRadius } = params;
+  // (cy + pitchRadius * a) / (cx - pitchRadius) = tan(psi)
+  return ((cx - pitchRadius) * Math.tan(psi) - cy) / pitchRadius;
+}
+
+/**
+ * Position of the cut point in space, when it cuts
+ */
+function getCutterPoint(params: ArcCutParams, psi: number): [number, number] {
+  const a = getTimeForPsi(params, psi);
+  return [
+    params.cx + Math.cos(psi) * params.radius,
+    params.cy + params.pitchRadius * a + Math.sin(psi) * params.radius,
+  ];
+}
+
+function getThetaForPsi(params: ArcCutParams, psi: number): number {
+  const a = getTimeForPsi(params, psi);
+  const [x, y] = getCutterPoint(params, psi);
+  return Math.atan2(y, x) - a;
+}
+
+/**
+ * Get the cut point relative to the gear, and the unit direction of the arc center's
+ * motion relative to the gear, which is parallel to the cut
+ */
+function getGearPointAndDirection(
+  params: ArcCutParams,
+  psi: number
+): PointAndTangent {
+  const { cx, cy, pitchRadius } = params;
+  const a = getTimeForPsi(params, psi);
+  const [px, py] = getCutterPoint(params, psi);
+  const c = Math.cos(-a);
+  const s = Math.sin(-a);
+  // velocity of the arc center relative to the gear, in space
+  const vx = cy + pitchRadius * a;
+  const vy = pitchRadius - cx;
+  const vmag = Math.sqrt(vx * vx + vy * vy);
+  return [
+    px * c - py * s,
+    px * s + py * c,
+    (vx * c - vy * s) / vmag,
+    (vx * s + vy * c) / vmag,
+  ];
+}
@@ -0,0 +1,81 @@
+import { Pen } from './types.js';
+import { interpolateArcTurn } from './utils/arcUtils.js';
+import { biArcApproximate, PointAndTangent } from './utils/biarc.js';
+import { drawBiArcs } from './utils/parametricCurve.js';
+
+const SAMPLES_PER_SEGMENT = 16;
+
+/**
+ * Base class for filtering pens that send paths through a smooth nonlinear mapping.
+ *
+ * Lines and arcs don't stay lines and arcs under such mappings, so each
+ * segment is sampled and re-approximated with biarcs.  Each mapped segment should
+ * turn in only one direction.
+ */
+export abstract class BiArcMappingPen implements Pen {
+  readonly target: Pen;
+  readonly tolerance: number;
+  private x: number | undefined;
+  private y: number | undefined;
+
+  /**
+   * @param target pen to receive the mapped paths
+   * @param tolerance maximum deviation of the output from the exactly mapped path
+   */
+  constructor(target: Pen, tolerance: number) {
+    this.target = target;
+    this.tolerance = tolerance;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    const [wx, wy] = this.map([x, y, 1, 0]);
+    this.target.moveTo(wx, wy);
+  }
+
+  arcTo(x: number, y: number, turn: number): void {
+    const x0 = this.x;
+    const y0 = this.y;
+    if (x0 == undefined || y0 == undefined) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.x = x;
+    this.y = y;
+    const dx = x - x0;
+    const dy = y - y0;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    if (!(len > 0)) {
+      return;
+    }
+    const samples: PointAndTangent[] = [];
+    for (let i = 0; i <= SAMPLES_PER_SEGMENT; ++i) {
+      const t = i / SAMPLES_PER_SEGMENT;
+      let px: number;
+      let py: number;
+      if (Math.abs(turn) < 1e-6) {
+        px = x0 + dx * t;
+        py = y0 + dy * t;
+      } else if (i == SAMPLES_PER_SEGMENT) {
+        px = x;
+        py = y;
+      } else {
+        [px, py] = interpolateArcTurn(x0, y0, x, y, turn, turn * t);
+      }
+      // tangent is the chord direction, rotated
+      const rot = turn * (t - 0.5);
+      const c = Math.cos(rot);
+      const s = Math.sin(rot);
+      samples.push(
+        this.map([px, py, (dx * c - dy * s) / len, (dy * c + dx * s) / len])
+      );
+    }
+    drawBiArcs(this.target, biArcApproximate(samples, this.tolerance));
+  }
+
+  /**
+   * Map a point and its unit tangent.  The returned tangent must also have unit length.
+   */
+  protected abstract map(pt: PointAndTangent): PointAndTangent;
+}
@@ -0,0 +1,44 @@
+import { Pen } from './types.js';
+import { PointAndTangent } from './utils/biarc.js';
+import { BiArcMappingPen } from './BiArcMappingPen.js';
+
+/**
+ * A filtering pen that wraps paths around the origin, so that the x axis maps to a circle.
+ *
+ * The point (x,y) is mapped to distance `radius + y` from the origin, at angle
+ * `x * angleScale` radians from the +x axis.
+ */
+export class CircleWrapPen extends BiArcMappingPen {
+  readonly radius: number;
+  readonly angleScale: number;
+
+  /**
+   * @param target pen to receive the wrapped paths
+   * @param radius distance from the origin for points on the x axis
+   * @param angleScale angle in radians to rotate around the origin per unit of x
+   * @param tolerance maximum deviation of the output from the exactly wrapped path
+   */
+  constructor(
+    target: Pen,
+    radius: number,
+    angleScale: number,
+    tolerance: number
+  ) {
+    super(target, tolerance);
+    this.radius = radius;
+    this.angleScale = angleScale;
+  }
+
+  protected map(pt: PointAndTangent): PointAndTangent {
+    const [x, y, tx, ty] = pt;
+    const r = this.radius + y;
+    const theta = x * this.angleScale;
+    const c = Math.cos(theta);
+    const s = Math.sin(theta);
+    // radial and tangential components of the tangent
+    const tr = ty;
+    const tt = tx * r * this.angleScale;
+    const tlen = Math.sqrt(tr * tr + tt * tt);
+    return [r * c, r * s, (tr * c - tt * s) / tlen, (tr * s + tt * c) / tlen];
+  }
+}
@@ -0,0 +1,55 @@
+import { Pen } from './types.js';
+import { PointAndTangent } from './utils/biarc.js';
+import { BiArcMappingPen } from './BiArcMappingPen.js';
+
+/**
+ * A filtering pen that warps paths in polar coordinates, mapping distances from
+ * the origin through a function, and scaling all angles around the origin by a constant
+ * factor.
+ *
+ * Paths must stay clear of the origin, and not cross the -x axis.
+ */
+export class PolarWarpPen extends BiArcMappingPen {
+  readonly mapRadius: (r: number) => number;
+  readonly angleScale: number;
+
+  /**
+   * @param target pen to receive the warped paths
+   * @param mapRadius function that maps distances from the origin.  It must be smooth and
+   *      increasing.
+   * @param angleScale factor to multiply angles around the origin by
+   * @param tolerance maximum deviation of the output from the exactly warped path
+   */
+  constructor(
+    target: Pen,
+    mapRadius: (r: number) => number,
+    angleScale: number,
+    tolerance: number
+  ) {
+    super(target, tolerance);
+    this.mapRadius = mapRadius;
+    this.angleScale = angleScale;
+  }
+
+  protected map(pt: PointAndTangent): PointAndTangent {
+    const [x, y, tx, ty] = pt;
+    const r = Math.sqrt(x * x + y * y);
+    const theta = Math.atan2(y, x) * this.angleScale;
+    const c = Math.cos(theta);
+    const s = Math.sin(theta);
+    const newR = this.mapRadius(r);
+    const dr = r * 1e-6;
+    const drdr = (this.mapRadius(r + dr) - this.mapRadius(r - dr)) / (2 * dr);
+    // radial and tangential components of the tangent, scaled by the
+    // derivatives of the mapping in those directions
+    const tr = ((tx * x + ty * y) / r) * drdr;
+    const tt = ((ty * x - tx * y) / r) * this.angleScale * (newR / r);
+    const tlen = Math.sqrt(tr * tr + tt * tt);
+    return [
+      newR * c,
+      newR * s,
+      (tr * c - tt * s) / tlen,
+      (tr * s + tt * c) / tlen,
+    ];
+  }
+}
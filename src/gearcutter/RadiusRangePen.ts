@@ -0,0 +1,78 @@
+import { Pen } from './types.js';
+import { angleFromTo, arcCenter } from './utils/arcUtils.js';
+
+/**
+ * A pen that measures the range of distances from the origin covered by the
+ * paths sent to it
+ */
+export class RadiusRangePen implements Pen {
+  minR: number | undefined;
+  maxR: number | undefined;
+  private x: number | undefined;
+  private y: number | undefined;
+
+  moveTo(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    this.addR(Math.sqrt(x * x + y * y));
+  }
+
+  arcTo(x: number, y: number, turn: number): void {
+    const x0 = this.x;
+    const y0 = this.y;
+    this.moveTo(x, y);
+    if (x0 == undefined || y0 == undefined) {
+      return;
+    }
+    if (Math.abs(turn) < 1e-6) {
+      // line.  Check the closest point to the origin
+      const dx = x - x0;
+      const dy = y - y0;
+      const mag2 = dx * dx + dy * dy;
+      if (mag2 > 0) {
+        const t = -(x0 * dx + y0 * dy) / mag2;
+        if (t > 0 && t < 1) {
+          const px = x0 + dx * t;
+          const py = y0 + dy * t;
+          this.addR(Math.sqrt(px * px + py * py));
+        }
+      }
+      return;
+    }
+    // The nearest and farthest points on the circle are on the line
+    // through the origin and the center.  Check if the arc reaches them.
+    const [cx, cy] = arcCenter(x0, y0, x, y, turn);
+    const cmag = Math.sqrt(cx * cx + cy * cy);
+    const r = Math.sqrt((x0 - cx) * (x0 - cx) + (y0 - cy) * (y0 - cy));
+    if (cmag <= 0) {
+      return;
+    }
+    for (const sign of [1, -1]) {
+      // angle from start radius to extreme point radius, in the direction of the turn
+      let a = angleFromTo(
+        x0 - cx,
+        y0 - cy,
+        (cx * sign) / cmag,
+        (cy * sign) / cmag
+      );
+      if (turn < 0) {
+        a = -a;
+      }
+      if (a < 0) {
+        a += Math.PI * 2;
+      }
+      if (a < Math.abs(turn)) {
+        this.addR(Math.abs(cmag + r * sign));
+      }
+    }
+  }
+
+  private addR(r: number) {
+    if (this.minR == undefined || r < this.minR) {
+      this.minR = r;
+    }
+    if (this.maxR == undefined || r > this.maxR) {
+      this.maxR = r;
+    }
+  }
+}
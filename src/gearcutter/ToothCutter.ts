@@ -1,3 +1,4 @@
+import { makeArcCuts } from './ArcCut.js';
 import { CircleCut } from './CircleCut.js';
 import { ConstantRadiusCut } from './ConstantRadiusCut.js';
 import { normalizePolarCutPath } from './pathSampling.js';
@@ -11,7 +12,7 @@ import { XForm } from './XFormPen.js';
  * time t=0.  The resulting path defines the shape cut into the gear, as
  * the gear turns at constant velocity, and the cutter moves at constant velocity along y.
  *
- * Currently only straight paths are supported as input
+ * The cutter path can have straight lines and arcs, and its points must all have x > 0
  */
 export class ToothCutter implements Pen {
   private lastX: number | undefined;
@@ -78,9 +79,6 @@ export class ToothCutter implements Pen {
     if (x <= 0) {
       throw new Error('x <= 0 is not supported in GearCutter');
     }
-    if (Math.abs(turn) > 0.001) {
-      throw new Error('Curved cutter paths are not supported in GearCutter');
-    }
     if (this.lastX == undefined || this.lastY == undefined) {
       throw new Error('Curve without current point sent to GearCutter');
     }
@@ -97,6 +95,11 @@ export class ToothCutter implements Pen {
     }
     this.cutPoint(x, y);
 
+    if (Math.abs(turn) > 0.001) {
+      this.cutArc(x0, y0, x, y, turn);
+      return;
+    }
+
     if (x0 == x) {
       this.cutFlat(x, y0, y);
       return;
@@ -166,6 +169,28 @@ export class ToothCutter implements Pen {
     ]);
   }
 
+  cutArc(x0: number, y0: number, x1: number, y1: number, turn: number): void {
+    const cuts = makeArcCuts(
+      x0,
+      y0,
+      x1,
+      y1,
+      turn,
+      this.pitchRadius,
+      this.faceTol
+    );
+    for (const curve of cuts) {
+      const thetaA = curve.thetaA / this.dadTooth;
+      const thetaB = curve.thetaB / this.dadTooth;
+      this.path.push([
+        Math.min(thetaA, thetaB),
+        Math.max(thetaA, thetaB),
+        curve,
+        0,
+      ]);
+    }
+  }
+
   cutFlat(x: number, y0: number, y1: number): void {
     let curve = this.flatCurves.get(x);
     if (!curve) {
@@ -0,0 +1,311 @@
+import { makeRack, RackProps } from './rack.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { PolarWarpPen } from './PolarWarpPen.js';
+import { RecordingPen } from './RecordingPen.js';
+import { PathFunc } from './types.js';
+import {
+  DEGREE,
+  ID3D,
+  Part,
+  Shaper3D,
+  Sketch,
+  TOPVIEW,
+} from '../geom/index.js';
+import {
+  DEFAULT_BACKLASH_PERCENT,
+  DEFAULT_BALANCE_PERCENT,
+  DEFAULT_CLEARANCE_PERCENT,
+  DEFAULT_CONTACT_RATIO,
+  DEFAULT_CUTTER_TIP_RADIUS,
+  DEFAULT_FACE_TOL,
+  DEFAULT_FILLET_TOL,
+  DEFAULT_MAX_FILLET,
+  DEFAULT_PROFILE_SHIFT_PERCENT,
+  DEFAULT_RELIEF,
+  DEFAUT_PRESSURE_ANGLE,
+  GearPairProps,
+} from './index.js';
+
+export type BevelGearSizeType = 'mod' | 'diaPitch';
+
+export const DEFAULT_SHAFT_ANGLE = 90;
+
+export interface BevelGearPairProps
+  extends Omit<
+    GearPairProps,
+    'isInternalGear' | 'sizeType' | 'gearCutter' | 'pinionCutter'
+  > {
+  /** How `size` is measured.  Sizes are measured at the outer (large) end of the teeth */
+  readonly sizeType: BevelGearSizeType;
+  /** Angle between the gear and pinion axes, in degrees.  Default 90 */
+  readonly shaftAngle?: number | undefined;
+  /** Length of the teeth, measured along the pitch cone */
+  readonly faceWidth: number;
+}
+
+export interface BevelGearPairResult {
+  /**
+   * The gear.  Its axis is the z axis, with the apex of its pitch cone at the origin, and its
+   * body below that in the -z direction.  There is a tooth centered on the +x side.
+   */
+  readonly gear: Part;
+  /**
+   * The pinion, with the apex of its pitch cone at the origin, meshed with the gear.  Its axis
+   * is the gear's axis rotated by the shaft angle toward the +x axis
+   */
+  readonly pinion: Part;
+  /** Outline of the gear at the outer end of its teeth, looking down the gear axis */
+  readonly gearProfile: Sketch;
+  /** Outline of the pinion at the outer end of its teeth, looking down the pinion axis */
+  readonly pinionProfile: Sketch;
+  /** Pitch diameter at the outer end of the teeth */
+  readonly gearPitchDiameter: number;
+  /** Pitch diameter at the outer end of the teeth */
+  readonly pinionPitchDiameter: number;
+  /** Half-angle of the gear pitch cone, in degrees */
+  readonly gearPitchAngle: number;
+  /** Half-angle of the pinion pitch cone, in degrees */
+  readonly pinionPitchAngle: number;
+  /** Distance along the pitch cones from the apex to the outer end of the teeth */
+  readonly coneDistance: number;
+  readonly gearArcsPerTooth: number;
+  readonly pinionArcsPerTooth: number;
+}
+
+/**
+ * Create a pair of straight bevel gears.
+ *
+ * The tooth profiles are cut for the virtual spur gears on the back cones (Tredgold's
+ * approximation), and projected onto the plane of the outer pitch circle.  The teeth
+ * are then tapered toward the cone apex.
+ */
+export function createBevelGearPair(
+  props: BevelGearPairProps
+): BevelGearPairResult {
+  const clearancePercent =
+    props.clearanceModPercent ?? DEFAULT_CLEARANCE_PERCENT;
+  const backlashPercent = props.backlashModPercent ?? DEFAULT_BACKLASH_PERCENT;
+  const pressureAngle = props.pressureAngle ?? DEFAUT_PRESSURE_ANGLE;
+  const contactRatio = props.targetContactRatio ?? DEFAULT_CONTACT_RATIO;
+  const profileShift =
+    props.profileShiftPercent ?? DEFAULT_PROFILE_SHIFT_PERCENT;
+  const gearTeeth = props.gearTeeth;
+  const pinionTeeth = props.pinionTeeth;
+  const maxFillet = props.isMaxFillet ?? DEFAULT_MAX_FILLET;
+  const balancePercent = props.balancePercent ?? DEFAULT_BALANCE_PERCENT;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const filletTolPercent =
+    props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const tipRelief = props.tipReliefModPercent ?? DEFAULT_RELIEF;
+  const rootRelief = props.rootReliefModPercent ?? DEFAULT_RELIEF;
+  const shaftAngle = props.shaftAngle ?? DEFAULT_SHAFT_ANGLE;
+  const sizeNumber = props.size;
+  const faceWidth = props.faceWidth;
+
+  if (gearTeeth < 4) {
+    throw new Error("Can't have less than 4 gear teeth");
+  }
+  if (!(shaftAngle > 0 && shaftAngle < 180)) {
+    throw new Error(`Invalid shaft angle ${shaftAngle}`);
+  }
+  const szLen = props.sizeType === 'diaPitch' ? 1.0 : 1.0 / Math.PI;
+  if (!isFinite(sizeNumber) || sizeNumber <= 0) {
+    throw new Error(`Invalid size number ${sizeNumber}`);
+  }
+  const scale = sizeNumber / szLen;
+
+  // pitch cone angles
+  const sigma = shaftAngle * DEGREE;
+  const pinionDelta = Math.atan2(
+    Math.sin(sigma),
+    gearTeeth / pinionTeeth + Math.cos(sigma)
+  );
+  const gearDelta = sigma - pinionDelta;
+  if (gearDelta >= Math.PI * 0.5 - 1e-6) {
+    throw new Error(
+      'Shaft angle is too large.  The gear pitch cone must be narrower than 180 degrees'
+    );
+  }
+
+  const gearRadius = (gearTeeth * 0.5) / Math.PI;
+  const pinionRadius = (pinionTeeth * 0.5) / Math.PI;
+  const coneDistance = (gearRadius / Math.sin(gearDelta)) * scale;
+  if (!(faceWidth > 0 && faceWidth < coneDistance)) {
+    throw new Error(
+      `Face width must be positive and less than the cone distance ${coneDistance}`
+    );
+  }
+
+  const rackProps: RackProps = {
+    contactRatio,
+    pressureAngle,
+    profileShift,
+    balancePercent,
+    balanceAbsPercent: 0.0,
+    topClrPercent: 0,
+    botClrPercent: 0,
+    // All the teeth are external, with their tips at the top of the racks
+    topReliefPercent: tipRelief,
+    topReliefHeightPercent: props.tipReliefHeightModPercent,
+    botReliefPercent: rootRelief,
+    botReliefHeightPercent: props.rootReliefHeightModPercent,
+  };
+  const pinionRack = makeRack({
+    ...rackProps,
+    botClrPercent: clearancePercent,
+    botRadiusPercent: tipRadiusPercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+  const gearRack = makeRack({
+    ...rackProps,
+    balancePercent: 100 - rackProps.balancePercent,
+    profileShift: -profileShift,
+    botClrPercent: clearancePercent,
+    botRadiusPercent: tipRadiusPercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+
+  const faceT = faceTolPercent / (100 * Math.PI);
+  const filletT = filletTolPercent / (100 * Math.PI);
+  const fillet = maxFillet ? 'external' : 'none';
+  const gearTooth = bevelToothPath(
+    gearTeeth,
+    gearDelta,
+    gearRack,
+    faceT,
+    filletT,
+    fillet
+  );
+  const pinionTooth = bevelToothPath(
+    pinionTeeth,
+    pinionDelta,
+    pinionRack,
+    faceT,
+    filletT,
+    fillet
+  );
+  const gearProfile: Sketch = (pen) =>
+    drawGearFromTooth(
+      new GearCutterPenAdapter(pen),
+      true,
+      scale,
+      gearTooth.path,
+      gearTeeth
+    );
+  const pinionProfile: Sketch = (pen) =>
+    drawGearFromTooth(
+      new GearCutterPenAdapter(pen),
+      true,
+      scale,
+      pinionTooth.path,
+      pinionTeeth
+    );
+
+  // The teeth mesh on the +x side of the gear, so the pinion must have
+  // a tooth space on the side that faces the gear
+  const pinionPhase = 180 + 180 / pinionTeeth;
+  const ss = Math.sin(sigma);
+  const cs = Math.cos(sigma);
+  const pinionPlacement = ID3D.preBasis(
+    [cs, 0, ss, 0],
+    [0, 1, 0, 0],
+    [-ss, 0, cs, 0],
+    [0, 0, 0, 1]
+  );
+
+  return {
+    gear: (shaper) => [
+      bevelBody(
+        shaper,
+        gearProfile,
+        0,
+        gearRadius * scale,
+        gearDelta,
+        faceWidth
+      ),
+    ],
+    pinion: (shaper) => [
+      bevelBody(
+        pinionPlacement.mapShaper(shaper),
+        pinionProfile,
+        pinionPhase,
+        pinionRadius * scale,
+        pinionDelta,
+        faceWidth
+      ),
+    ],
+    gearProfile,
+    pinionProfile,
+    gearPitchDiameter: gearRadius * 2.0 * scale,
+    pinionPitchDiameter: pinionRadius * 2.0 * scale,
+    gearPitchAngle: gearDelta / DEGREE,
+    pinionPitchAngle: pinionDelta / DEGREE,
+    coneDistance,
+    gearArcsPerTooth: gearTooth.arcsPerTooth,
+    pinionArcsPerTooth: pinionTooth.arcsPerTooth,
+  };
+}
+
+/**
+ * Cut the tooth of the virtual spur gear on the back cone, wrap it back onto the cone,
+ * and project it onto the plane of the pitch circle
+ */
+function bevelToothPath(
+  nTeeth: number,
+  pitchAngle: number,
+  rack: PathFunc,
+  faceTol: number,
+  filletTol: number,
+  fillet: 'none' | 'external'
+): { path: PathFunc; arcsPerTooth: number } {
+  const cosDelta = Math.cos(pitchAngle);
+  const virtualTooth = cutGearTooth(
+    nTeeth / cosDelta,
+    rack,
+    faceTol,
+    filletTol,
+    fillet
+  );
+  // Points on the back cone are projected toward the cone apex onto the plane
+  // of the pitch circle
+  const virtualRadius = (nTeeth * 0.5) / Math.PI / cosDelta;
+  const tan2 = Math.tan(pitchAngle) ** 2;
+  const mapRadius = (r: number) =>
+    (r * cosDelta) / (1 - (r / virtualRadius - 1) * tan2);
+  const recorder = new RecordingPen();
+  virtualTooth.path(
+    new PolarWarpPen(recorder, mapRadius, 1 / cosDelta, faceTol),
+    true
+  );
+  return { path: recorder.path, arcsPerTooth: recorder.countSegments() };
+}
+
+/**
+ * Make the toothed body of a bevel gear, with its axis along z and its pitch cone
+ * apex at the origin
+ */
+function bevelBody(
+  shaper: Shaper3D,
+  profile: Sketch,
+  phaseDegrees: number,
+  pitchRadius: number,
+  pitchAngle: number,
+  faceWidth: number
+) {
+  const coneDistance = pitchRadius / Math.sin(pitchAngle);
+  const outerZ = -coneDistance * Math.cos(pitchAngle);
+  const innerScale = (coneDistance - faceWidth) / coneDistance;
+  return shaper.taperExtrude(
+    TOPVIEW.rotateTop(phaseDegrees),
+    profile,
+    [0, 0, outerZ],
+    [0, 0, outerZ * innerScale],
+    innerScale
+  );
+}
@@ -0,0 +1,484 @@
+import { drawGearFromTooth, GearCutterPenAdapter } from './gearTooth.js';
+import { RecordingPen } from './RecordingPen.js';
+import { XForm } from './XFormPen.js';
+import { drawParametricCurve } from './utils/parametricCurve.js';
+import { PointAndTangent } from './utils/biarc.js';
+import { PathFunc, Pen } from './types.js';
+import { DEGREE, ID2D, Matrix2D, Sketch } from '../geom/index.js';
+import {
+  DEFAULT_BACKLASH_PERCENT,
+  DEFAULT_CLEARANCE_PERCENT,
+  DEFAULT_FACE_TOL,
+} from './index.js';
+
+/** Default tolerance for the arc approximation of cycloidal disc profiles */
+export const DEFAULT_CYCLOIDAL_TOLERANCE = 0.005;
+/** Default pin wheel pin diameter, as a percentage of the module */
+export const DEFAULT_PIN_DIAMETER_PERCENT = 150;
+
+// samples per lobe or tooth flank for arc approximation
+const CURVE_SAMPLES = 200;
+
+export interface CycloidalDriveProps {
+  /** Number of pins in the fixed ring.  The disc has one fewer lobe */
+  readonly ringPins: number;
+  /** Diameter of the circle through the centers of the ring pins */
+  readonly pinCircleDiameter: number;
+  readonly pinDiameter: number;
+  /** Offset of the eccentric from the input axis */
+  readonly eccentricity: number;
+  /**
+   * Gap to leave between the disc and the ring pins, and between the output holes
+   * and the output pins, to compensate for printer tolerances.  Default 0
+   */
+  readonly clearance?: number | undefined;
+  /** Diameter of the hole in the center of the disc, for the eccentric or its bearing */
+  readonly discBoreDiameter: number;
+  /**
+   * Diameter of the eccentric cam.  Default is `discBoreDiameter` - 2 * `clearance`, to
+   * fit the disc bore directly
+   */
+  readonly eccentricDiameter?: number | undefined;
+  /** Diameter of the hole for the input shaft in the eccentric.  Default is no hole */
+  readonly inputShaftDiameter?: number | undefined;
+  /** Number of output pins, which pass through holes in the disc.  Default 0 */
+  readonly outputPins?: number | undefined;
+  /** Diameter of the circle through the centers of the output pins */
+  readonly outputPinCircleDiameter?: number | undefined;
+  readonly outputPinDiameter?: number | undefined;
+  /** Maximum deviation of the disc profile from the exact curve.  Default 0.005 */
+  readonly tolerance?: number | undefined;
+}
+
+export interface CycloidalDriveResult {
+  /**
+   * The cycloidal disc, centered on the origin, with a valley between lobes on the +x
+   * axis.  The first outline is the disc profile, and the others are the bore
+   * and output holes.
+   */
+  readonly disc: Sketch;
+  /**
+   * The fixed ring pins, centered on the origin, with a pin on the +x axis.  Each pin
+   * is a separate outline, so use `extrudeAll` to make them.
+   */
+  readonly pins: Sketch;
+  /**
+   * The output pins, centered on the origin, with a pin on the +x axis.  Each pin is
+   * a separate outline.  Empty if there are no output pins.
+   */
+  readonly outputPins: Sketch;
+  /** The eccentric, with its center at (`eccentricity`, 0), around the input axis at the origin */
+  readonly eccentric: Sketch;
+  /**
+   * Get the transform that places the disc in mesh with the pins when the eccentric
+   * is rotated by `inputDegrees` around the origin.  The output turns in the opposite
+   * direction, 1/`ratio` times as fast.
+   */
+  discPlacement(inputDegrees: number): Matrix2D;
+  /** Turns of the input per turn of the output */
+  readonly ratio: number;
+  /** Diameter of the circle through the bottoms of the valleys between the disc lobes */
+  readonly discMinDiameter: number;
+  /** Diameter of the circle through the tips of the disc lobes */
+  readonly discMaxDiameter: number;
+  readonly discArcsPerLobe: number;
+}
+
+/**
+ * Create the parts of a single-disc cycloidal reducer.
+ *
+ * The disc profile is the epitrochoid traced by the ring pin centers as the disc moves,
+ * offset inward by the pin radius.
+ */
+export function createCycloidalDrive(
+  props: CycloidalDriveProps
+): CycloidalDriveResult {
+  const nPins = props.ringPins;
+  const R = props.pinCircleDiameter * 0.5;
+  const E = props.eccentricity;
+  const clearance = props.clearance ?? 0;
+  const pinRadius = props.pinDiameter * 0.5;
+  const rho = pinRadius + clearance;
+  const tolerance = props.tolerance ?? DEFAULT_CYCLOIDAL_TOLERANCE;
+  const boreRadius = props.discBoreDiameter * 0.5;
+  const eccentricRadius =
+    props.eccentricDiameter != undefined
+      ? props.eccentricDiameter * 0.5
+      : boreRadius - clearance;
+  const shaftRadius = (props.inputShaftDiameter ?? 0) * 0.5;
+  const nOutputs = props.outputPins ?? 0;
+
+  if (!(nPins >= 3) || nPins !== Math.floor(nPins)) {
+    throw new Error(`Invalid number of ring pins ${nPins}`);
+  }
+  if (!(R > 0)) {
+    throw new Error(`Invalid pin circle diameter ${R * 2}`);
+  }
+  if (!(E > 0 && E * nPins < R)) {
+    throw new Error(
+      `Eccentricity must be positive and less than the pin circle radius / number of pins`
+    );
+  }
+  if (!(pinRadius > 0 && pinRadius < R * Math.sin(Math.PI / nPins))) {
+    throw new Error(`Invalid pin diameter ${pinRadius * 2}`);
+  }
+  if (!(clearance >= 0 && tolerance > 0)) {
+    throw new Error('Clearance and tolerance must be positive');
+  }
+  if (!(nOutputs >= 0) || nOutputs !== Math.floor(nOutputs)) {
+    throw new Error(`Invalid number of output pins ${nOutputs}`);
+  }
+  if (!(eccentricRadius > E && eccentricRadius > shaftRadius + E)) {
+    throw new Error(
+      'The eccentric must be big enough to enclose the input axis and the input shaft'
+    );
+  }
+
+  // The ring pin centers, relative to the disc, trace the epitrochoid
+  // Q(t) = R*(cos t, sin t) - E*(cos Nt, sin Nt)
+  const nLobes = nPins - 1;
+  const dQ = (t: number) => [
+    -R * Math.sin(t) + nPins * E * Math.sin(nPins * t),
+    R * Math.cos(t) - nPins * E * Math.cos(nPins * t),
+  ];
+  // The offset must be smaller than the radius of curvature wherever the curve is convex
+  let maxCurvature = 0;
+  for (let i = 0; i <= CURVE_SAMPLES; ++i) {
+    const t = (Math.PI * i) / nLobes / CURVE_SAMPLES;
+    const [dx, dy] = dQ(t);
+    const ddx = -R * Math.cos(t) + nPins * nPins * E * Math.cos(nPins * t);
+    const ddy = -R * Math.sin(t) + nPins * nPins * E * Math.sin(nPins * t);
+    const len = Math.sqrt(dx * dx + dy * dy);
+    maxCurvature = Math.max(maxCurvature, (dx * ddy - dy * ddx) / len ** 3);
+  }
+  if (rho * maxCurvature >= 1) {
+    throw new Error(
+      `The disc lobes are too sharp for the pins.  The largest pin diameter is ${
+        2 / maxCurvature - clearance * 2
+      }`
+    );
+  }
+  const discProfile: (t: number) => PointAndTangent = (t) => {
+    const [dx, dy] = dQ(t);
+    const len = Math.sqrt(dx * dx + dy * dy);
+    const tx = dx / len;
+    const ty = dy / len;
+    // offset inward, to the left of the counter-clockwise curve
+    return [
+      R * Math.cos(t) - E * Math.cos(nPins * t) - ty * rho,
+      R * Math.sin(t) - E * Math.sin(nPins * t) + tx * rho,
+      tx,
+      ty,
+    ];
+  };
+  const lobeRecorder = new RecordingPen();
+  drawParametricCurve(
+    lobeRecorder,
+    discProfile,
+    0,
+    (Math.PI * 2) / nLobes,
+    CURVE_SAMPLES,
+    tolerance,
+    true
+  );
+  const lobePath = lobeRecorder.path;
+  const discMinRadius = R - E - rho;
+
+  const outputCircleRadius = (props.outputPinCircleDiameter ?? 0) * 0.5;
+  const outputPinRadius = (props.outputPinDiameter ?? 0) * 0.5;
+  // The output pins orbit the holes, so the holes are larger by the eccentricity
+  const outputHoleRadius = outputPinRadius + E + clearance;
+  if (!(boreRadius > 0 && boreRadius < discMinRadius)) {
+    throw new Error(`Invalid disc bore diameter ${boreRadius * 2}`);
+  }
+  if (nOutputs > 0) {
+    if (!(outputCircleRadius > 0 && outputPinRadius > 0)) {
+      throw new Error(
+        'Output pin circle diameter and pin diameter are required'
+      );
+    }
+    if (
+      outputCircleRadius + outputHoleRadius >= discMinRadius ||
+      outputCircleRadius - outputHoleRadius <= boreRadius ||
+      (nOutputs > 1 &&
+        outputHoleRadius >= outputCircleRadius * Math.sin(Math.PI / nOutputs))
+    ) {
+      throw new Error(
+        'Output holes must fit between the disc bore and the disc valleys without overlapping'
+      );
+    }
+  }
+
+  const circleRing =
+    (count: number, radius: number, diameter: number): Sketch =>
+    (pen) => {
+      for (let i = 0; i < count; ++i) {
+        const a = (Math.PI * 2 * i) / count;
+        pen.circle(radius * Math.cos(a), radius * Math.sin(a), diameter);
+      }
+    };
+
+  return {
+    disc: (pen) => {
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        1,
+        lobePath,
+        nLobes
+      );
+      pen.circle(0, 0, boreRadius * 2);
+      circleRing(nOutputs, outputCircleRadius, outputHoleRadius * 2)(pen);
+    },
+    pins: circleRing(nPins, R, pinRadius * 2),
+    outputPins: circleRing(nOutputs, outputCircleRadius, outputPinRadius * 2),
+    eccentric: (pen) => {
+      pen.circle(E, 0, eccentricRadius * 2);
+      if (shaftRadius > 0) {
+        pen.circle(0, 0, shaftRadius * 2);
+      }
+    },
+    discPlacement: (inputDegrees) => {
+      const a = (inputDegrees * Math.PI) / 180;
+      return ID2D.translate(E * Math.cos(a), E * Math.sin(a)).rotate(
+        -inputDegrees / nLobes
+      );
+    },
+    ratio: nLobes,
+    discMinDiameter: discMinRadius * 2,
+    discMaxDiameter: (R + E - rho) * 2,
+    discArcsPerLobe: lobeRecorder.countSegments(),
+  };
+}
+
+export type PinWheelSizeType = 'mod' | 'diaPitch';
+
+export interface PinWheelGearPairProps {
+  readonly clearanceModPercent?: number | undefined;
+  readonly backlashModPercent?: number | undefined;
+  readonly faceToleranceModPercent?: number | undefined;
+  readonly gearTeeth: number;
+  /** Number of pins in the pin wheel (lantern pinion) */
+  readonly pins: number;
+  /** Diameter of the pins, as a percentage of the module.  Default 150 */
+  readonly pinDiameterModPercent?: number | undefined;
+  /**
+   * Height of the gear teeth above the pitch circle, as a percentage of the module.
+   * By default, the teeth come to a point.
+   */
+  readonly addendumModPercent?: number | undefined;
+  readonly sizeType: PinWheelSizeType;
+  readonly size: number;
+}
+
+export interface PinWheelGearPairResult {
+  /** The gear, centered on the origin, with a tooth on the +x axis */
+  readonly gear: Sketch;
+  /**
+   * The pins of the pin wheel, centered on the origin, with a pin on the +x axis.  Each pin
+   * is a separate outline, so use `extrudeAll` to make them.
+   */
+  readonly pinWheel: Sketch;
+  /**
+   * Transform that places the pin wheel in mesh with the gear, at (`centerDistance`, 0).
+   * When the gear rotates by `a` degrees, the pin wheel rotates by
+   * -`a` * `gearTeeth` / `pins` degrees.
+   */
+  readonly pinWheelPlacement: Matrix2D;
+  readonly gearPitchDiameter: number;
+  readonly gearTipDiameter: number;
+  readonly gearRootDiameter: number;
+  /** Diameter of the circle through the centers of the pins */
+  readonly pinCircleDiameter: number;
+  readonly pinDiameter: number;
+  readonly centerDistance: number;
+  readonly gearArcsPerTooth: number;
+}
+
+/**
+ * Create a gear that meshes with a pin wheel (lantern pinion).
+ *
+ * The gear teeth above the pitch circle are epicycloids traced by the pin centers,
+ * offset by the pin radius.  Below the pitch circle, each tooth space is a round-bottomed
+ * slot that the pins drop into.
+ */
+export function createPinWheelGearPair(
+  props: PinWheelGearPairProps
+): PinWheelGearPairResult {
+  const clearancePercent =
+    props.clearanceModPercent ?? DEFAULT_CLEARANCE_PERCENT;
+  const backlashPercent = props.backlashModPercent ?? DEFAULT_BACKLASH_PERCENT;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const pinPercent =
+    props.pinDiameterModPercent ?? DEFAULT_PIN_DIAMETER_PERCENT;
+  const gearTeeth = props.gearTeeth;
+  const nPins = props.pins;
+  const sizeNumber = props.size;
+
+  if (gearTeeth < 4) {
+    throw new Error("Can't have less than 4 gear teeth");
+  }
+  if (nPins < 3) {
+    throw new Error("Can't have less than 3 pins");
+  }
+  const szLen = props.sizeType === 'diaPitch' ? 1.0 : 1.0 / Math.PI;
+  if (!isFinite(sizeNumber) || sizeNumber <= 0) {
+    throw new Error(`Invalid size number ${sizeNumber}`);
+  }
+  // The gear path is drawn in units where the module is 1
+  const scale = sizeNumber / szLen / Math.PI;
+  const rg = gearTeeth * 0.5;
+  const rp = nPins * 0.5;
+  const pinRadius = pinPercent / 200;
+  // half-width of the tooth spaces
+  const w = pinRadius + backlashPercent / 200;
+  const slotBottom = rg - clearancePercent / 100;
+  const halfTooth = Math.PI / gearTeeth;
+  if (!(pinRadius > 0 && pinRadius < rp * Math.sin(Math.PI / nPins))) {
+    throw new Error(`Invalid pin diameter ${pinPercent}% of the module`);
+  }
+  if (!(slotBottom * Math.sin(halfTooth) > w)) {
+    throw new Error('The pins are too big for the gear tooth spaces');
+  }
+
+  // The pin centers, relative to the gear, trace an epicycloid with a cusp at
+  // (rg, 0), in the middle of a tooth space:
+  // P(theta) = (rg+rp)*e^(i*theta) - rp*e^(i*k*theta)
+  // Its tangent direction is e^(i*(k+1)*theta/2), and the tooth flank is offset to
+  // the left, toward the next tooth.
+  const k = (rg + rp) / rp;
+  const flank: (theta: number) => PointAndTangent = (theta) => {
+    const tx = Math.cos(((k + 1) * theta) / 2);
+    const ty = Math.sin(((k + 1) * theta) / 2);
+    return [
+      (rg + rp) * Math.cos(theta) - rp * Math.cos(k * theta) - ty * w,
+      (rg + rp) * Math.sin(theta) - rp * Math.sin(k * theta) + tx * w,
+      tx,
+      ty,
+    ];
+  };
+  // Near the cusp, the radius of curvature of the epicycloid is smaller than
+  // the offset, so the offset curve folds back into the tooth space.  The flank starts
+  // where the forward part of the offset curve crosses the slot wall.
+  const foldTheta =
+    (2 * Math.asin(Math.min((w * (k + 1)) / (4 * (rg + rp)), 1))) / (k - 1);
+  const flankAngle = (theta: number) => {
+    const [x, y] = flank(theta);
+    return Math.atan2(y, x);
+  };
+  const flankRadius = (theta: number) => {
+    const [x, y] = flank(theta);
+    return Math.sqrt(x * x + y * y);
+  };
+  // the arch of the epicycloid ends back on the pitch circle
+  const archEnd = (Math.PI * 2) / (k - 1);
+  if (flankAngle(archEnd * 0.5) <= halfTooth) {
+    throw new Error('The pin wheel is too large for the gear');
+  }
+  const solve = (f: (theta: number) => number, lo: number, hi: number) => {
+    for (let i = 0; i < 60; ++i) {
+      const mid = (lo + hi) * 0.5;
+      if (f(mid) < 0) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    return (lo + hi) * 0.5;
+  };
+  const flankStart =
+    flank(foldTheta)[1] < w
+      ? solve((theta) => flank(theta)[1] - w, foldTheta, archEnd * 0.5)
+      : foldTheta;
+  // The flanks of adjacent teeth meet at the middle of the tooth, unless they're cut
+  // off at the addendum
+  let flankEnd = solve(
+    (theta) => flankAngle(theta) - halfTooth,
+    flankStart,
+    archEnd * 0.5
+  );
+  let tipRadius = flankRadius(flankEnd);
+  if (props.addendumModPercent != undefined) {
+    const addendumRadius = rg + props.addendumModPercent / 100;
+    if (!(addendumRadius > rg)) {
+      throw new Error(`Invalid addendum ${props.addendumModPercent}%`);
+    }
+    if (addendumRadius < tipRadius) {
+      flankEnd = solve(
+        (theta) => flankRadius(theta) - addendumRadius,
+        flankStart,
+        flankEnd
+      );
+      tipRadius = addendumRadius;
+    }
+  }
+
+  // Draw the tooth space side of the tooth path, centered on the +x axis
+  const [startX, startY] = flank(flankStart);
+  const faceTol = faceTolPercent / 100;
+  const halfRecorder = new RecordingPen();
+  const halfPen = new XForm().rotate(-halfTooth / DEGREE).apply(halfRecorder);
+  halfPen.moveTo(slotBottom - w, 0);
+  halfPen.arcTo(slotBottom, w, -Math.PI * 0.5);
+  halfPen.arcTo(startX, startY, 0);
+  drawParametricCurve(
+    halfPen,
+    flank,
+    flankStart,
+    flankEnd,
+    CURVE_SAMPLES,
+    faceTol,
+    false
+  );
+  const endAngle = flankAngle(flankEnd);
+  if (endAngle < halfTooth) {
+    // flat tip
+    halfPen.arcTo(
+      tipRadius * Math.cos(halfTooth),
+      tipRadius * Math.sin(halfTooth),
+      halfTooth - endAngle
+    );
+  }
+  const toothPath: PathFunc = (pen: Pen, doMove: boolean) => {
+    halfRecorder.path(pen, doMove);
+    new XForm()
+      .scale(1, true)
+      .processPath(pen, halfRecorder.reversedPath, false);
+  };
+  const toothRecorder = new RecordingPen();
+  toothPath(toothRecorder, true);
+
+  const centerDistance = (rg + rp) * scale;
+  return {
+    gear: (pen) =>
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        scale,
+        toothPath,
+        gearTeeth
+      ),
+    pinWheel: (pen) => {
+      for (let i = 0; i < nPins; ++i) {
+        const a = (Math.PI * 2 * i) / nPins;
+        pen.circle(
+          rp * scale * Math.cos(a),
+          rp * scale * Math.sin(a),
+          pinRadius * 2 * scale
+        );
+      }
+    },
+    // A gear tooth is on the +x axis, so the pin wheel turns to put a
+    // space between pins there
+    pinWheelPlacement: ID2D.translate(centerDistance, 0).rotate(
+      180 + 180 / nPins
+    ),
+    gearPitchDiameter: rg * 2 * scale,
+    gearTipDiameter: tipRadius * 2 * scale,
+    gearRootDiameter: (slotBottom - w) * 2 * scale,
+    pinCircleDiameter: rp * 2 * scale,
+    pinDiameter: pinRadius * 2 * scale,
+    centerDistance,
+    gearArcsPerTooth: toothRecorder.countSegments(),
+  };
+}
@@ -0,0 +1,115 @@
+import { ToothCutter } from './ToothCutter.js';
+import {
+  applyInternalToothFillet,
+  applyMaxToothFillet,
+} from './InitialMaxFilletPen.js';
+import { PathFunc, Pen } from './types.js';
+import { XForm } from './XFormPen.js';
+import { RecordingPen } from './RecordingPen.js';
+import { LastPointCapturePen } from './LastPointCapturePen.js';
+import { RadiusRangePen } from './RadiusRangePen.js';
+import { DEGREE, Pen2D } from '../geom/index.js';
+
+/**
+ * Adapts a [[Pen2D]] to receive paths from the gear cutter
+ */
+export class GearCutterPenAdapter implements Pen {
+  private pen2d: Pen2D;
+  constructor(pen2d: Pen2D) {
+    this.pen2d = pen2d;
+  }
+  moveTo(x: number, y: number): void {
+    this.pen2d.move(x, y);
+  }
+  arcTo(x: number, y: number, turn: number): void {
+    if (turn > -0.0001 && turn < 0.0001) {
+      this.pen2d.line(x, y);
+    } else {
+      this.pen2d.arc(x, y, turn / DEGREE);
+    }
+  }
+}
+
+export type ToothFilletType = 'none' | 'external' | 'internal';
+
+export interface CutToothResult {
+  /**
+   * The path of a single tooth:
+   * - the gear center is (0,0),
+   * - the tooth is to the right, centered on the + x axis
+   * - it is drawn from the -y to +y direction
+   */
+  path: PathFunc;
+  arcsPerTooth: number;
+  /** smallest distance from the gear center to the tooth path */
+  minRadius: number;
+  /** largest distance from the gear center to the tooth path */
+  maxRadius: number;
+}
+
+/**
+ * Cut a gear tooth with a rack, in units where the rack pitch is 1
+ *
+ * @param nTeeth number of teeth on the gear
+ * @param rack the rack, with its pitch line on the x axis.  It cuts into the gear
+ *      from above, i.e., the gear is below the path
+ * @param faceTol tolerance for arc approximation of the tooth faces
+ * @param filletTol tolerance for arc approximation of the tooth fillets
+ * @param fillet maximum fillet to apply to the tooth roots
+ */
+export function cutGearTooth(
+  nTeeth: number,
+  rack: PathFunc,
+  faceTol: number,
+  filletTol: number,
+  fillet: ToothFilletType
+): CutToothResult {
+  const radius = (nTeeth * 0.5) / Math.PI;
+  const cutter = new ToothCutter(nTeeth, radius, faceTol, filletTol);
+  new XForm().rotate(-90).translate(0, radius).processPath(cutter, rack, true);
+  const recorder = new RecordingPen();
+  cutter.drawToothPath(recorder, true);
+  let path = recorder.path;
+  if (fillet !== 'none') {
+    path =
+      fillet === 'internal'
+        ? applyInternalToothFillet(path)
+        : applyMaxToothFillet(path);
+    recorder.reset();
+    path(recorder, true);
+  }
+  const range = new RadiusRangePen();
+  path(range, true);
+  return {
+    path,
+    arcsPerTooth: recorder.countSegments(),
+    minRadius: range.minR!,
+    maxRadius: range.maxR!,
+  };
+}
+
+/**
+ * Draw a whole gear by repeating a tooth path
+ */
+export function drawGearFromTooth(
+  pen: Pen,
+  doMove: boolean,
+  scale: number,
+  path: PathFunc,
+  nTeeth: number
+) {
+  if (doMove) {
+    const capture = new LastPointCapturePen();
+    new XForm()
+      .rotate(((nTeeth - 1) * 360) / nTeeth)
+      .scale(scale)
+      .processPath(capture, path, true);
+    capture.transferMove(pen);
+  }
+  for (let i = 0; i < nTeeth; ++i) {
+    new XForm()
+      .rotate((i * 360) / nTeeth)
+      .scale(scale)
+      .processPath(pen, path, false);
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  BodyID,
+  DEGREE,
+  LoftSection,
+  Part,
+  Shaper3D,
+  Sketch,
+  TOPVIEW,
+} from '../geom/index.js';
+import type { GearPairResult } from './index.js';
+
+export interface HelicalGearProps {
+  /**
+   * Helix angle at the pitch circle, in degrees.  Positive angles make a right-handed
+   * gear, and negative angles make a left-handed gear.  The hand of the pinion is
+   * chosen to mesh.
+   */
+  readonly helixAngle: number;
+  /** Length of the gears along their axes */
+  readonly faceWidth: number;
+  /**
+   * Lead crowning, which thins the teeth toward both ends of the face width, so that
+   * the gears still mesh in the middle when the shafts are misaligned.  This is the
+   * amount of material removed from each flank at the ends of the teeth, measured
+   * normal to the flanks in the plane of the sketch.  Default 0.
+   *
+   * Crowning is not supported for gears with custom cutters.
+   */
+  readonly crowning?: number | undefined;
+  /**
+   * The crowning is parabolic.  The teeth are lofted through thinned sections at
+   * this many steps along the face width, and the surfaces between them are smooth.
+   * More steps follow the parabola and the helix more closely, but are slower to
+   * build.  At least 2.  Default 4
+   */
+  readonly crowningSteps?: number | undefined;
+}
+
+export const DEFAULT_CROWNING_STEPS = 4;
+
+export interface HelicalGearParts {
+  /**
+   * The gear body, extruded from z=0 to z=faceWidth.  For internal gears, this is the
+   * tool that should be cut out of the ring.
+   */
+  gear: Part;
+  /** The pinion body, extruded from z=0 to z=faceWidth */
+  pinion: Part;
+  /** Total rotation of the gear profile from z=0 to z=faceWidth, in degrees CCW */
+  gearTwist: number;
+  /** Total rotation of the pinion profile from z=0 to z=faceWidth, in degrees CCW */
+  pinionTwist: number;
+}
+
+export interface HerringboneGearProps
+  extends Omit<HelicalGearProps, 'crowning' | 'crowningSteps'> {
+  /**
+   * Width of a relief gap at the mid-plane between the two helical halves.  The teeth
+   * are removed down to the root circle in the gap.  Default 0.
+   */
+  readonly centerGap?: number | undefined;
+}
+
+export interface HerringboneGearParts {
+  /**
+   * The gear body, extruded from z=0 to z=faceWidth.  For internal gears, this is the
+   * tool that should be cut out of the ring.
+   */
+  gear: Part;
+  /** The pinion body, extruded from z=0 to z=faceWidth */
+  pinion: Part;
+  /** Rotation of the gear profile from z=0 to the start of the mid-plane gap, in degrees CCW */
+  gearTwist: number;
+  /** Rotation of the pinion profile from z=0 to the start of the mid-plane gap, in degrees CCW */
+  pinionTwist: number;
+}
+
+/**
+ * Make helical gear bodies from the sketches of a gear pair.
+ *
+ * The sketches are used as the transverse profiles of the gears, so the module of the pair
+ * is the transverse module, and the normal module is smaller by a factor of cos(helixAngle).
+ * The gears mesh in the same positions as the sketches do.
+ */
+export function createHelicalGearParts(
+  pair: GearPairResult,
+  props: HelicalGearProps
+): HelicalGearParts {
+  const { helixAngle, faceWidth } = props;
+  const crowning = props.crowning ?? 0;
+  const crowningSteps = props.crowningSteps ?? DEFAULT_CROWNING_STEPS;
+  if (!(Math.abs(helixAngle) < 90)) {
+    throw new Error(`Invalid helix angle ${helixAngle}`);
+  }
+  if (!(faceWidth > 0)) {
+    throw new Error(`Invalid face width ${faceWidth}`);
+  }
+  if (!(crowning >= 0)) {
+    throw new Error(`Invalid crowning ${crowning}`);
+  }
+  if (!(Number.isInteger(crowningSteps) && crowningSteps >= 2)) {
+    throw new Error(`Invalid number of crowning steps ${crowningSteps}`);
+  }
+  // distance that the teeth advance around the pitch circles
+  const advance = faceWidth * Math.tan(helixAngle * DEGREE);
+  const gearTwist = (advance * 2) / pair.gearPitchDiameter / DEGREE;
+  let pinionTwist = (advance * 2) / pair.pinionPitchDiameter / DEGREE;
+  if (!pair.isInternalGear) {
+    // external gears mesh with opposite hands
+    pinionTwist = -pinionTwist;
+  }
+  if (crowning > 0) {
+    const thinned = new Map<number, { gear: Sketch; pinion: Sketch }>();
+    const getThinned = (thinning: number) => {
+      let ret = thinned.get(thinning);
+      if (!ret) {
+        ret = pair.thinnedTeeth(thinning);
+        thinned.set(thinning, ret);
+      }
+      return ret;
+    };
+    return {
+      gear: (shaper) => [
+        crownedBody(
+          shaper,
+          (thinning) => getThinned(thinning).gear,
+          faceWidth,
+          gearTwist,
+          crowning,
+          crowningSteps
+        ),
+      ],
+      pinion: (shaper) => [
+        crownedBody(
+          shaper,
+          (thinning) => getThinned(thinning).pinion,
+          faceWidth,
+          pinionTwist,
+          crowning,
+          crowningSteps
+        ),
+      ],
+      gearTwist,
+      pinionTwist,
+    };
+  }
+  return {
+    gear: (shaper) => [
+      shaper.twistExtrude(
+        TOPVIEW,
+        pair.gear,
+        [0, 0, 0],
+        [0, 0, faceWidth],
+        gearTwist
+      ),
+    ],
+    pinion: (shaper) => [
+      shaper.twistExtrude(
+        TOPVIEW,
+        pair.pinion,
+        [0, 0, 0],
+        [0, 0, faceWidth],
+        pinionTwist
+      ),
+    ],
+    gearTwist,
+    pinionTwist,
+  };
+}
+
+/**
+ * Make herringbone (double helical) gear bodies from the sketches of a gear pair.
+ *
+ * Each body is made of two mirrored helical halves, so the axial thrust of the halves
+ * cancels out.  As with [[createHelicalGearParts]], the sketches are used as the transverse
+ * profiles of the gears.
+ */
+export function createHerringboneGearParts(
+  pair: GearPairResult,
+  props: HerringboneGearProps
+): HerringboneGearParts {
+  const { faceWidth } = props;
+  const centerGap = props.centerGap ?? 0;
+  if (!(centerGap >= 0 && centerGap < faceWidth)) {
+    throw new Error(`Invalid center gap ${centerGap}`);
+  }
+  const halfWidth = (faceWidth - centerGap) * 0.5;
+  const { gearTwist, pinionTwist } = createHelicalGearParts(pair, {
+    ...props,
+    faceWidth: halfWidth,
+  });
+  // The relief removes the teeth in the gap.  For internal gears, the gear body is
+  // a tool, so it has to fill the whole gear outline instead
+  return {
+    gear: (shaper) => [
+      herringboneBody(
+        shaper,
+        pair.gear,
+        pair.gearRootDiameter,
+        halfWidth,
+        centerGap,
+        gearTwist
+      ),
+    ],
+    pinion: (shaper) => [
+      herringboneBody(
+        shaper,
+        pair.pinion,
+        pair.pinionRootDiameter,
+        halfWidth,
+        centerGap,
+        pinionTwist
+      ),
+    ],
+    gearTwist,
+    pinionTwist,
+  };
+}
+
+function herringboneBody(
+  shaper: Shaper3D,
+  sketch: Sketch,
+  reliefDiameter: number,
+  halfWidth: number,
+  centerGap: number,
+  halfTwist: number
+): BodyID {
+  const id = shaper.twistExtrude(
+    TOPVIEW,
+    sketch,
+    [0, 0, 0],
+    [0, 0, halfWidth],
+    halfTwist
+  );
+  // The second half is the mirror image of the first
+  const topStart = halfWidth + centerGap;
+  const topId = shaper.twistExtrude(
+    TOPVIEW.rotateTop(halfTwist),
+    sketch,
+    [0, 0, topStart],
+    [0, 0, topStart + halfWidth],
+    -halfTwist
+  );
+  shaper.join(id, topId);
+  if (centerGap > 0) {
+    const reliefId = shaper.extrude(
+      TOPVIEW,
+      (pen) => pen.circle(0, 0, reliefDiameter),
+      [0, 0, halfWidth],
+      [0, 0, topStart]
+    );
+    shaper.join(id, reliefId);
+  }
+  return id;
+}
+
+/**
+ * Make a crowned helical gear body by lofting through twisted sections along the
+ * face width, with the teeth thinned more toward the ends.
+ *
+ * @param sectionSketch get the profile for a section with the given tooth thinning
+ */
+function crownedBody(
+  shaper: Shaper3D,
+  sectionSketch: (thinning: number) => Sketch,
+  faceWidth: number,
+  twist: number,
+  crowning: number,
+  steps: number
+): BodyID {
+  const sections: LoftSection[] = [];
+  for (let i = 0; i <= steps; ++i) {
+    // position of the section, from -1 to 1 at the ends of the face width
+    const pos = (i * 2) / steps - 1;
+    sections.push({
+      plane: TOPVIEW.translate(0, 0, (faceWidth * i) / steps).rotateTop(
+        (twist * i) / steps
+      ),
+      sketch: sectionSketch(crowning * pos * pos),
+    });
+  }
+  return shaper.loft(sections);
+}
@@ -1,14 +1,12 @@
-import { ToothCutter } from './ToothCutter.js';
-import {
-  applyInternalToothFillet,
-  applyMaxToothFillet,
-} from './InitialMaxFilletPen.js';
 import { makeRack, RackProps } from './rack.js';
-import { PathFunc, Pen } from './types.js';
-import { XForm } from './XFormPen.js';
-import { RecordingPen } from './RecordingPen.js';
-import { LastPointCapturePen } from './LastPointCapturePen.js';
-import { DEGREE, Pen2D, Sketch } from '../geom/index.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { analyzeGearMesh, GearMeshReport } from './meshReport.js';
+import { PathFunc } from './types.js';
+import { Sketch } from '../geom/index.js';
 
 export type GearPairSizeType = 'mod' | 'diaPitch' | 'centerDist';
 
@@ -25,36 +23,94 @@ export interface GearPairProps {
   readonly isMaxFillet?: boolean | undefined;
   readonly faceToleranceModPercent?: number | undefined;
   readonly filletToleranceModPercent?: number | undefined;
+  /**
+   * Radius of the rounded tips of the racks that cut the teeth, in module%.  This
+   * rounds the tooth roots like a hob with rounded tips.  Default 0
+   */
+  readonly cutterTipRadiusModPercent?: number | undefined;
+  /**
+   * Tip relief, in module%.  This much material is removed from the flanks at the
+   * tooth tips, measured normal to the flanks, tapering to nothing at the start of
+   * the relief.  Small amounts of tip relief make printed gears mesh more smoothly.
+   * Default 0
+   */
+  readonly tipReliefModPercent?: number | undefined;
+  /**
+   * Radial length of the tip relief, down from the tips, in module%.  Default is
+   * half of the addendum
+   */
+  readonly tipReliefHeightModPercent?: number | undefined;
+  /**
+   * Root relief, in module%.  This much material is removed from the flanks at the
+   * bottom of the working depth, tapering to nothing at the start of the relief.
+   * Default 0
+   */
+  readonly rootReliefModPercent?: number | undefined;
+  /**
+   * Radial length of the root relief, up from the bottom of the working depth, in
+   * module%.  Default is half of the addendum
+   */
+  readonly rootReliefHeightModPercent?: number | undefined;
+  /**
+   * Custom rack to cut the gear with, instead of the one made from the other props.
+   * It is drawn in units where the rack pitch is 1, with its pitch line on the x axis,
+   * and cuts into the gear from above.  The path is one period, from (x,y) to (x+1,y).
+   * It can have arcs.  For internal gears, the rack cuts the tooth spaces.
+   */
+  readonly gearCutter?: PathFunc | undefined;
+  /** Custom rack to cut the pinion with.  See `gearCutter` */
+  readonly pinionCutter?: PathFunc | undefined;
   readonly sizeType: GearPairSizeType;
   readonly size: number;
 }
 
 export type { Pen, PathFunc } from './types.js';
+export type { RackProps } from './rack.js';
+export { makeRack } from './rack.js';
+export type { GearMeshReport } from './meshReport.js';
+export * from './helical.js';
+export * from './rackAndPinion.js';
+export * from './bevel.js';
+export * from './worm.js';
+export * from './cycloidal.js';
+export * from './planetary.js';
+export * from './spline.js';
+export * from './measurement.js';
+export * from './strength.js';
+export * from './singleGear.js';
 
 export interface GearPairResult {
   gear: Sketch;
   pinion: Sketch;
+  gearTeeth: number;
+  pinionTeeth: number;
   gearPitchDiameter: number;
   pinionPitchDiameter: number;
+  /**
+   * Diameter of the circle through the gear tooth tips.  For internal gears, this is the
+   * smallest diameter of the gear outline.
+   */
+  gearTipDiameter: number;
+  /**
+   * Diameter of the circle through the bottoms of the gear tooth spaces.  For internal gears,
+   * this is the largest diameter of the gear outline.
+   */
+  gearRootDiameter: number;
+  /** Diameter of the circle through the pinion tooth tips */
+  pinionTipDiameter: number;
+  /** Diameter of the circle through the bottoms of the pinion tooth spaces */
+  pinionRootDiameter: number;
   gearArcsPerTooth: number;
   pinionArcsPerTooth: number;
-}
-
-class GearCutterPenAdapter implements Pen {
-  private pen2d: Pen2D;
-  constructor(pen2d: Pen2D) {
-    this.pen2d = pen2d;
-  }
-  moveTo(x: number, y: number): void {
-    this.pen2d.move(x, y);
-  }
-  arcTo(x: number, y: number, turn: number): void {
-    if (turn > -0.0001 && turn < 0.0001) {
-      this.pen2d.line(x, y);
-    } else {
-      this.pen2d.arc(x, y, turn / DEGREE);
-    }
-  }
+  isInternalGear: boolean;
+  /** Analysis of the generated tooth profiles */
+  mesh: GearMeshReport;
+  /**
+   * Get the gear and pinion sketches with thinner teeth, for lead crowning.  The
+   * racks are widened so that `thinning` is removed from each flank, measured normal
+   * to the flank in sketch units.  This isn't supported with custom cutters.
+   */
+  thinnedTeeth(thinning: number): { gear: Sketch; pinion: Sketch };
 }
 
 export const DEFAULT_CLEARANCE_PERCENT = 15;
@@ -67,6 +123,8 @@ export const DEFAULT_IS_INTERNAL = false;
 export const DEFAULT_MAX_FILLET = false;
 export const DEFAULT_FACE_TOL = 0.05;
 export const DEFAULT_FILLET_TOL = 0.5;
+export const DEFAULT_CUTTER_TIP_RADIUS = 0;
+export const DEFAULT_RELIEF = 0;
 export const DEFAULT_SIZE_MEASUREMENT = 'mod';
 
 export function createGearPair(props: GearPairProps): GearPairResult {
@@ -85,6 +143,12 @@ export function createGearPair(props: GearPairProps): GearPairResult {
   const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
   const filletTolPercent =
     props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const tipRelief = props.tipReliefModPercent ?? DEFAULT_RELIEF;
+  const rootRelief = props.rootReliefModPercent ?? DEFAULT_RELIEF;
+  const tipReliefHeight = props.tipReliefHeightModPercent;
+  const rootReliefHeight = props.rootReliefHeightModPercent;
   const sizeNumber = props.size;
   const sizeMeasurement = props.sizeType;
 
@@ -122,108 +186,114 @@ export function createGearPair(props: GearPairProps): GearPairResult {
     botClrPercent: 0,
   };
 
-  const pinionRack = makeRack({
-    ...rackProps,
-    botClrPercent: clearancePercent,
-    balanceAbsPercent: backlashPercent * -0.5,
-  });
-  const gearRack = makeRack({
-    ...rackProps,
-    balancePercent: isInternal
-      ? rackProps.balancePercent
-      : 100 - rackProps.balancePercent,
-    profileShift: isInternal ? profileShift : -profileShift,
-    botClrPercent: isInternal ? 0 : clearancePercent,
-    topClrPercent: isInternal ? clearancePercent : 0,
-    balanceAbsPercent: backlashPercent * (isInternal ? 0.5 : -0.5),
-  });
+  // extra rack width, as balanceAbsPercent, per unit of flank thinning
+  const thinningPercent =
+    (200 * Math.PI) / (scale * Math.cos((pressureAngle * Math.PI) / 180));
+
+  const makePinionRack = (thinning: number) =>
+    makeRack({
+      ...rackProps,
+      botClrPercent: clearancePercent,
+      botRadiusPercent: tipRadiusPercent,
+      balanceAbsPercent: backlashPercent * -0.5 - thinning * thinningPercent,
+      topReliefPercent: tipRelief,
+      topReliefHeightPercent: tipReliefHeight,
+      botReliefPercent: rootRelief,
+      botReliefHeightPercent: rootReliefHeight,
+    });
+  const makeGearRack = (thinning: number) =>
+    makeRack({
+      ...rackProps,
+      balancePercent: isInternal
+        ? rackProps.balancePercent
+        : 100 - rackProps.balancePercent,
+      profileShift: isInternal ? profileShift : -profileShift,
+      botClrPercent: isInternal ? 0 : clearancePercent,
+      topClrPercent: isInternal ? clearancePercent : 0,
+      botRadiusPercent: isInternal ? 0 : tipRadiusPercent,
+      topRadiusPercent: isInternal ? tipRadiusPercent : 0,
+      balanceAbsPercent:
+        (backlashPercent * 0.5 + thinning * thinningPercent) *
+        (isInternal ? 1 : -1),
+      // The rack cuts the tooth spaces of internal gears, so their tips are at
+      // the bottom of the rack, and the relief removes material above the rack
+      topReliefPercent: isInternal ? -rootRelief : tipRelief,
+      topReliefHeightPercent: isInternal ? rootReliefHeight : tipReliefHeight,
+      botReliefPercent: isInternal ? -tipRelief : rootRelief,
+      botReliefHeightPercent: isInternal ? tipReliefHeight : rootReliefHeight,
+    });
+  const pinionRack = props.pinionCutter ?? makePinionRack(0);
+  const gearRack = props.gearCutter ?? makeGearRack(0);
 
   const faceT = faceTolPercent / (100 * Math.PI);
   const filletT = filletTolPercent / (100 * Math.PI);
 
-  const pinionCutter = new ToothCutter(
-    pinionTeeth,
-    pinionRadius,
-    faceT,
-    filletT
-  );
-  new XForm()
-    .rotate(-90)
-    .translate(0, pinionRadius)
-    .processPath(pinionCutter, pinionRack, true);
-  const pinionRecorder = new RecordingPen();
-  pinionCutter.drawToothPath(pinionRecorder, true);
-  // In recorded tooth path:
-  // - the gear center is (0,0),
-  // - the tooth is to the right, centered on the + x axis
-  // - it is drawn from the -y to +y direction
-  let pinionPath = pinionRecorder.path;
-  if (maxFillet) {
-    pinionPath = applyMaxToothFillet(pinionPath);
-    pinionRecorder.reset();
-    pinionPath(pinionRecorder, true);
-  }
-  const pinionArcsPerTooth = pinionRecorder.countSegments();
-
-  const gearCutter = new ToothCutter(gearTeeth, gearRadius, faceT, filletT);
-  new XForm()
-    .rotate(-90)
-    .translate(0, gearRadius)
-    .processPath(gearCutter, gearRack, true);
-  const gearRecorder = new RecordingPen();
-  gearCutter.drawToothPath(gearRecorder, true);
-  let gearPath = gearRecorder.path;
-  if (maxFillet) {
-    gearPath = isInternal
-      ? applyInternalToothFillet(gearPath)
-      : applyMaxToothFillet(gearPath);
-    gearRecorder.reset();
-    gearPath(gearRecorder, true);
-  }
-  const gearArcsPerTooth = gearRecorder.countSegments();
-  return {
-    gear: (pen) =>
+  const cutPinion = (rack: PathFunc) =>
+    cutGearTooth(
+      pinionTeeth,
+      rack,
+      faceT,
+      filletT,
+      maxFillet ? 'external' : 'none'
+    );
+  const cutGear = (rack: PathFunc) =>
+    cutGearTooth(
+      gearTeeth,
+      rack,
+      faceT,
+      filletT,
+      maxFillet ? (isInternal ? 'internal' : 'external') : 'none'
+    );
+  const pinionTooth = cutPinion(pinionRack);
+  const gearTooth = cutGear(gearRack);
+  const toSketch =
+    (path: PathFunc, nTeeth: number): Sketch =>
+    (pen) =>
       drawGearFromTooth(
         new GearCutterPenAdapter(pen),
         true,
         scale,
-        gearPath,
-        gearTeeth
-      ),
+        path,
+        nTeeth
+      );
+  return {
+    gear: toSketch(gearTooth.path, gearTeeth),
+    gearTeeth,
+    pinionTeeth,
     gearPitchDiameter: gearRadius * 2.0 * scale,
-    pinion: (pen) =>
-      drawGearFromTooth(
-        new GearCutterPenAdapter(pen),
-        true,
-        scale,
-        pinionPath,
-        pinionTeeth
-      ),
+    gearTipDiameter:
+      (isInternal ? gearTooth.minRadius : gearTooth.maxRadius) * 2.0 * scale,
+    gearRootDiameter:
+      (isInternal ? gearTooth.maxRadius : gearTooth.minRadius) * 2.0 * scale,
+    pinion: toSketch(pinionTooth.path, pinionTeeth),
     pinionPitchDiameter: pinionRadius * 2.0 * scale,
-    gearArcsPerTooth,
-    pinionArcsPerTooth,
+    pinionTipDiameter: pinionTooth.maxRadius * 2.0 * scale,
+    pinionRootDiameter: pinionTooth.minRadius * 2.0 * scale,
+    gearArcsPerTooth: gearTooth.arcsPerTooth,
+    pinionArcsPerTooth: pinionTooth.arcsPerTooth,
+    isInternalGear: isInternal,
+    mesh: analyzeGearMesh(
+      gearTeeth,
+      pinionTeeth,
+      isInternal,
+      pressureAngle,
+      gearRack,
+      pinionRack,
+      gearTooth,
+      pinionTooth,
+      scale
+    ),
+    thinnedTeeth: (thinning) => {
+      if (props.gearCutter || props.pinionCutter) {
+        throw new Error("Can't thin the teeth of gears with custom cutters");
+      }
+      if (!(thinning >= 0)) {
+        throw new Error(`Invalid tooth thinning ${thinning}`);
+      }
+      return {
+        gear: toSketch(cutGear(makeGearRack(thinning)).path, gearTeeth),
+        pinion: toSketch(cutPinion(makePinionRack(thinning)).path, pinionTeeth),
+      };
+    },
   };
 }
-
-function drawGearFromTooth(
-  pen: Pen,
-  doMove: boolean,
-  scale: number,
-  path: PathFunc,
-  nTeeth: number
-) {
-  if (doMove) {
-    const capture = new LastPointCapturePen();
-    new XForm()
-      .rotate(((nTeeth - 1) * 360) / nTeeth)
-      .scale(scale)
-      .processPath(capture, path, true);
-    capture.transferMove(pen);
-  }
-  for (let i = 0; i < nTeeth; ++i) {
-    new XForm()
-      .rotate((i * 360) / nTeeth)
-      .scale(scale)
-      .processPath(pen, path, false);
-  }
-}
@@ -0,0 +1,222 @@
+import { PolylinePen, Sketch } from '../geom/index.js';
+import type { GearPairResult } from './index.js';
+import { involute, inverseInvolute } from './utils/involute.js';
+
+export interface GearMeasurementProps {
+  /**
+   * Diameter of the measuring pins or balls.  Default is the diameter that touches
+   * the flanks at the pitch circle.
+   */
+  readonly pinDiameter?: number | undefined;
+  /**
+   * Number of teeth to measure the span over.  Default is the number that puts the
+   * caliper contacts closest to the middle of the flanks.
+   */
+  readonly spanTeeth?: number | undefined;
+}
+
+export interface GearPairMeasurementProps {
+  readonly gear?: GearMeasurementProps | undefined;
+  readonly pinion?: GearMeasurementProps | undefined;
+}
+
+/**
+ * Inspection measurements of a gear
+ */
+export interface GearMeasurement {
+  /** Circular thickness of the teeth at the pitch circle */
+  readonly toothThickness: number;
+  readonly pinDiameter: number;
+  /**
+   * Distance over two pins in opposite tooth spaces, or the spaces closest to
+   * opposite if the number of teeth is odd.  For internal gears, this is the
+   * distance between the pins.
+   */
+  readonly overPins: number;
+  /** Diameter of the circle where the pins touch the flanks */
+  readonly pinContactDiameter: number;
+  /** Number of teeth the span is measured over, or undefined for internal gears */
+  readonly spanTeeth: number | undefined;
+  /**
+   * Distance between parallel caliper jaws that touch the outside flanks of
+   * `spanTeeth` consecutive teeth, or undefined for internal gears
+   */
+  readonly span: number | undefined;
+}
+
+export interface GearPairMeasurement {
+  readonly gear: GearMeasurement;
+  readonly pinion: GearMeasurement;
+}
+
+/**
+ * Get the measurements over pins and over a span of teeth, for checking the gears
+ * from [[createGearPair]].  They are calculated from the generated tooth profiles,
+ * so they include profile shift, backlash, and balance.
+ */
+export function measureGearPair(
+  pair: GearPairResult,
+  props?: GearPairMeasurementProps
+): GearPairMeasurement {
+  return {
+    gear: measureGear(
+      pair.gear,
+      pair.gearTeeth,
+      pair.gearPitchDiameter,
+      pair.mesh.gearBaseDiameter,
+      pair.isInternalGear,
+      props?.gear
+    ),
+    pinion: measureGear(
+      pair.pinion,
+      pair.pinionTeeth,
+      pair.pinionPitchDiameter,
+      pair.mesh.pinionBaseDiameter,
+      false,
+      props?.pinion
+    ),
+  };
+}
+
+/**
+ * Get the measurements over pins and over a span of teeth for an involute gear.
+ *
+ * @param sketch the gear, centered on the origin.  External gears must have a
+ *      tooth on the +x axis, and internal gears must have a tooth space there.
+ */
+export function measureGear(
+  sketch: Sketch,
+  teeth: number,
+  pitchDiameter: number,
+  baseDiameter: number,
+  isInternal: boolean,
+  props?: GearMeasurementProps
+): GearMeasurement {
+  const r = pitchDiameter / 2;
+  const rb = baseDiameter / 2;
+  if (!(rb > 0 && rb < r)) {
+    throw new Error(`Invalid base diameter ${baseDiameter}`);
+  }
+  const pa = Math.acos(rb / r);
+  const invPA = involute(pa);
+  const halfTooth = Math.PI / teeth;
+
+  // Find where the flanks around the +x axis cross the pitch circle
+  const sampler = new PolylinePen(r * 1e-6);
+  sketch(sampler);
+  // the gear is the first outline
+  const points = sampler.paths[0] ?? [];
+  let upper = Infinity;
+  let lower = -Infinity;
+  let minR = Infinity;
+  let maxR = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const r1 = Math.sqrt(points[i] ** 2 + points[i + 1] ** 2);
+    minR = Math.min(minR, r1);
+    maxR = Math.max(maxR, r1);
+    if (i < 2) {
+      continue;
+    }
+    const r0 = Math.sqrt(points[i - 2] ** 2 + points[i - 1] ** 2);
+    if (r0 < r == r1 < r) {
+      continue;
+    }
+    const t = (r - r0) / (r1 - r0);
+    const angle = Math.atan2(
+      points[i - 1] + (points[i + 1] - points[i - 1]) * t,
+      points[i - 2] + (points[i] - points[i - 2]) * t
+    );
+    if (Math.abs(angle) <= halfTooth) {
+      if (angle >= 0) {
+        upper = Math.min(upper, angle);
+      } else {
+        lower = Math.max(lower, angle);
+      }
+    }
+  }
+  if (!isFinite(upper) || !isFinite(lower)) {
+    throw new Error("Can't find the gear flanks at the pitch circle");
+  }
+  // half angles of the teeth and the spaces at the pitch circle
+  const toothAngle = isInternal
+    ? halfTooth - (upper - lower) * 0.5
+    : (upper - lower) * 0.5;
+  const spaceAngle = halfTooth - toothAngle;
+  const tipR = isInternal ? minR : maxR;
+  const rootR = isInternal ? maxR : minR;
+
+  // Pins.  u is the pin diameter / base diameter.
+  let u: number;
+  if (props?.pinDiameter != undefined) {
+    u = props.pinDiameter / (rb * 2);
+  } else if (isInternal) {
+    u = Math.tan(pa) - Math.tan(pa - spaceAngle);
+  } else {
+    u = Math.tan(pa + spaceAngle) - Math.tan(pa);
+  }
+  const pinDiameter = u * rb * 2;
+  if (!(pinDiameter > 0)) {
+    throw new Error(`Invalid pin diameter ${pinDiameter}`);
+  }
+  // pressure angle at the pin center
+  const invPin = isInternal ? invPA + spaceAngle - u : invPA + u - spaceAngle;
+  const pinPA = invPin > 0 ? inverseInvolute(invPin) : 0;
+  const tanContact = isInternal ? Math.tan(pinPA) + u : Math.tan(pinPA) - u;
+  const contactR = rb * Math.sqrt(1 + tanContact * tanContact);
+  if (
+    !(invPin > 0 && tanContact >= 0) ||
+    (isInternal ? contactR < tipR || contactR > rootR : contactR > tipR)
+  ) {
+    throw new Error(
+      `A pin with diameter ${pinDiameter} doesn't touch the involute flanks`
+    );
+  }
+  let pinSpan = (rb * 2) / Math.cos(pinPA);
+  if (teeth % 2) {
+    pinSpan *= Math.cos(halfTooth * 0.5);
+  }
+
+  // Span
+  let spanTeeth: number | undefined;
+  let span: number | undefined;
+  if (!isInternal) {
+    const spanFor = (k: number) =>
+      (k - 1) * halfTooth * rb * 2 + (toothAngle + invPA) * rb * 2;
+    const contactFor = (k: number) =>
+      Math.sqrt(rb * rb + spanFor(k) ** 2 * 0.25);
+    if (props?.spanTeeth != undefined) {
+      spanTeeth = props.spanTeeth;
+      if (
+        !(Number.isInteger(spanTeeth) && spanTeeth >= 1 && spanTeeth < teeth)
+      ) {
+        throw new Error(`Invalid number of span teeth ${spanTeeth}`);
+      }
+      if (contactFor(spanTeeth) > tipR) {
+        throw new Error(
+          `A span over ${spanTeeth} teeth doesn't touch the involute flanks`
+        );
+      }
+    } else {
+      const midR = (tipR + Math.max(rootR, rb)) * 0.5;
+      spanTeeth = 1;
+      for (let k = 2; k < teeth; ++k) {
+        if (
+          Math.abs(contactFor(k) - midR) <
+          Math.abs(contactFor(spanTeeth) - midR)
+        ) {
+          spanTeeth = k;
+        }
+      }
+    }
+    span = spanFor(spanTeeth);
+  }
+
+  return {
+    toothThickness: toothAngle * r * 2,
+    pinDiameter,
+    overPins: isInternal ? pinSpan - pinDiameter : pinSpan + pinDiameter,
+    pinContactDiameter: contactR * 2,
+    spanTeeth,
+    span,
+  };
+}
@@ -0,0 +1,189 @@
+import type { CutToothResult } from './gearTooth.js';
+import { LastPointCapturePen } from './LastPointCapturePen.js';
+import { PathFunc } from './types.js';
+
+/**
+ * Metrics that describe how well a gear pair meshes
+ */
+export interface GearMeshReport {
+  /**
+   * Average number of tooth pairs in contact, calculated from the actual tip
+   * diameters, and limited to the portions of the tooth flanks that are involutes
+   */
+  contactRatio: number;
+  gearBaseDiameter: number;
+  pinionBaseDiameter: number;
+  /** Radius of the circle through the gear tooth tips */
+  gearAddendumRadius: number;
+  /** Radius of the circle through the bottoms of the gear tooth spaces */
+  gearDedendumRadius: number;
+  /** Radius of the circle through the pinion tooth tips */
+  pinionAddendumRadius: number;
+  /** Radius of the circle through the bottoms of the pinion tooth spaces */
+  pinionDedendumRadius: number;
+  /** Width of the flat at the tip of each gear tooth, measured along the tip circle */
+  gearTipThickness: number;
+  /** Width of the flat at the tip of each pinion tooth, measured along the tip circle */
+  pinionTipThickness: number;
+  /**
+   * True if the generating rack cut into the gear's involute flanks.  This is always
+   * false for internal gears.
+   */
+  gearUndercut: boolean;
+  /** True if the generating rack cut into the pinion's involute flanks */
+  pinionUndercut: boolean;
+  /**
+   * True if the gear tips reach past the involute part of the pinion flanks, into
+   * the pinion fillets
+   */
+  gearTipInterference: boolean;
+  /**
+   * True if the pinion tips reach past the involute part of the gear flanks, into
+   * the gear fillets
+   */
+  pinionTipInterference: boolean;
+}
+
+/**
+ * Analyze a gear pair.  All inputs are in units where the rack pitch is 1.
+ *
+ * @param gearRack the rack that cut the gear
+ * @param pinionRack the rack that cut the pinion
+ * @param scale factor to convert the results to output units
+ */
+export function analyzeGearMesh(
+  gearTeeth: number,
+  pinionTeeth: number,
+  isInternal: boolean,
+  pressureAngle: number,
+  gearRack: PathFunc,
+  pinionRack: PathFunc,
+  gearTooth: CutToothResult,
+  pinionTooth: CutToothResult,
+  scale: number
+): GearMeshReport {
+  const sinPA = Math.sin((pressureAngle * Math.PI) / 180.0);
+  const cosPA = Math.cos((pressureAngle * Math.PI) / 180.0);
+  const r1 = (pinionTeeth * 0.5) / Math.PI;
+  const r2 = (gearTeeth * 0.5) / Math.PI;
+  const rb1 = r1 * cosPA;
+  const rb2 = r2 * cosPA;
+  const tip1 = pinionTooth.maxRadius;
+  const tip2 = isInternal ? gearTooth.minRadius : gearTooth.maxRadius;
+
+  // Distances along the line of action, from the points where it touches
+  // the base circles, to the lowest points of the involute flanks
+  const form1 = formDistance(r1, sinPA, pinionRack);
+  const form2 = isInternal ? 0 : formDistance(r2, sinPA, gearRack);
+
+  // Contact along the line of action, from the pitch point
+  // to where the gear tip meets the pinion
+  const gearTipDist = isInternal
+    ? r2 * sinPA - tipDistance(tip2, rb2)
+    : tipDistance(tip2, rb2) - r2 * sinPA;
+  const gearTipLimit = r1 * sinPA - Math.max(form1, 0);
+  // ... and from the pitch point to where the pinion tip meets the gear
+  const pinionTipDist = tipDistance(tip1, rb1) - r1 * sinPA;
+  let pinionTipLimit: number;
+  if (isInternal) {
+    // the gear involutes extend all the way to the gear roots
+    pinionTipLimit = tipDistance(gearTooth.maxRadius, rb2) - r2 * sinPA;
+  } else {
+    pinionTipLimit = r2 * sinPA - Math.max(form2, 0);
+  }
+  const tol = 1e-9;
+  const contactLength =
+    Math.max(Math.min(gearTipDist, gearTipLimit), 0) +
+    Math.max(Math.min(pinionTipDist, pinionTipLimit), 0);
+
+  return {
+    contactRatio: contactLength / cosPA,
+    gearBaseDiameter: rb2 * 2 * scale,
+    pinionBaseDiameter: rb1 * 2 * scale,
+    gearAddendumRadius: tip2 * scale,
+    gearDedendumRadius:
+      (isInternal ? gearTooth.maxRadius : gearTooth.minRadius) * scale,
+    pinionAddendumRadius: tip1 * scale,
+    pinionDedendumRadius: pinionTooth.minRadius * scale,
+    gearTipThickness:
+      tipThickness(gearTooth.path, gearTeeth, tip2, isInternal) * scale,
+    pinionTipThickness:
+      tipThickness(pinionTooth.path, pinionTeeth, tip1, false) * scale,
+    gearUndercut: form2 < 0,
+    pinionUndercut: form1 < 0,
+    gearTipInterference: gearTipDist > gearTipLimit + tol,
+    pinionTipInterference: pinionTipDist > pinionTipLimit + tol,
+  };
+}
+
+/**
+ * Distance along the line of action from the base circle tangent point
+ * to the lowest point on a rack-generated involute flank.  Negative if the rack
+ * undercuts the flank.
+ */
+function formDistance(
+  pitchRadius: number,
+  sinPA: number,
+  rack: PathFunc
+): number {
+  // Find the bottom of the rack's sloped straight flanks.  If it doesn't have
+  // any, use the end of the path, which is at the bottom of a tooth space.
+  let bottom = Number.POSITIVE_INFINITY;
+  const bottomPen = new LastPointCapturePen();
+  rack(
+    {
+      moveTo(x, y) {
+        bottomPen.moveTo(x, y);
+      },
+      arcTo(x, y, turn) {
+        const y0 = bottomPen.y!;
+        if (turn == 0 && y != y0) {
+          bottom = Math.min(bottom, y0, y);
+        }
+        bottomPen.arcTo(x, y, turn);
+      },
+    },
+    true
+  );
+  if (!isFinite(bottom)) {
+    bottom = bottomPen.y!;
+  }
+  return pitchRadius * sinPA + bottom / sinPA;
+}
+
+/**
+ * Distance along the line of action from the base circle tangent point to
+ * a point at the given radius
+ */
+function tipDistance(radius: number, baseRadius: number): number {
+  return Math.sqrt(Math.max(radius * radius - baseRadius * baseRadius, 0));
+}
+
+/**
+ * Measure the flat tip land of a tooth path
+ */
+function tipThickness(
+  path: PathFunc,
+  nTeeth: number,
+  tipRadius: number,
+  isInternal: boolean
+): number {
+  const halfTooth = Math.PI / nTeeth;
+  let minAngle = Number.POSITIVE_INFINITY;
+  let maxAngle = Number.NEGATIVE_INFINITY;
+  const addPoint = (x: number, y: number) => {
+    const r = Math.sqrt(x * x + y * y);
+    if (Math.abs(r - tipRadius) > tipRadius * 1e-7) {
+      return;
+    }
+    let angle = Math.atan2(y, x);
+    if (isInternal) {
+      // internal gear teeth are centered on the spaces between the path teeth
+      angle += angle < 0 ? halfTooth : -halfTooth;
+    }
+    minAngle = Math.min(minAngle, angle);
+    maxAngle = Math.max(maxAngle, angle);
+  };
+  path({ moveTo: addPoint, arcTo: addPoint }, true);
+  return maxAngle > minAngle ? (maxAngle - minAngle) * tipRadius : 0;
+}
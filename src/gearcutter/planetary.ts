@@ -0,0 +1,239 @@
+import { ID2D, Matrix2D, Sketch } from '../geom/index.js';
+import { createGearPair, GearPairProps, GearPairResult } from './index.js';
+
+export interface PlanetaryStageProps
+  extends Omit<
+    GearPairProps,
+    | 'gearTeeth'
+    | 'pinionTeeth'
+    | 'isInternalGear'
+    | 'sizeType'
+    | 'size'
+    | 'gearCutter'
+    | 'pinionCutter'
+  > {
+  readonly ringTeeth: number;
+  readonly planetTeeth: number;
+  /** Number of teeth on the sun gear.  Only the first stage can have a sun */
+  readonly sunTeeth?: number | undefined;
+}
+
+export interface PlanetaryProps {
+  /** Number of planets, equally spaced around the main axis */
+  readonly planets: number;
+  /** Distance from the main axis to the planet axes */
+  readonly centerDistance: number;
+  /**
+   * One stage for a simple planetary, with a sun, fixed ring, and the carrier as output.
+   *
+   * Two stages for a compound planetary with split rings.  The planets have a gear for
+   * each stage, the first ring is fixed, and the second ring is the output.  The input is
+   * the sun in the first stage if there is one, or the carrier otherwise.
+   */
+  readonly stages: readonly PlanetaryStageProps[];
+}
+
+export interface PlanetaryStageResult {
+  ring: Sketch;
+  planet: Sketch;
+  sun: Sketch | undefined;
+  /** The ring and planet gears */
+  ringPair: GearPairResult;
+  /** The sun and planet gears.  The sun is the `gear` */
+  sunPair: GearPairResult | undefined;
+  ringPlacement: Matrix2D;
+  sunPlacement: Matrix2D | undefined;
+  /**
+   * Rotation in degrees of the planet sketch for each planet, so that it meshes with
+   * the ring and sun.  Use this to make the planet parts centered on the origin.
+   */
+  planetRotations: number[];
+  /** Placement of the planet sketch for each planet */
+  planetPlacements: Matrix2D[];
+}
+
+export interface PlanetaryResult {
+  stages: PlanetaryStageResult[];
+  /** Centers of the planets */
+  planetCenters: [number, number][];
+  /**
+   * True if all the planets are the same part, rotated.  Planets in single-stage
+   * designs are always the same, but the planets in compound designs usually need
+   * different phases between their gears.
+   */
+  identicalPlanets: boolean;
+  /**
+   * Input turns per output turn.  It's negative if the output turns in the opposite
+   * direction
+   */
+  ratio: number;
+}
+
+/**
+ * Design a planetary gearbox, made of gear pairs with [[createGearPair]]
+ *
+ * The main axis is at the origin, the first planet is on the +x axis, and the
+ * others are equally spaced counter-clockwise around it.  The returned placements
+ * put each gear in an assembled position.
+ */
+export function designPlanetary(props: PlanetaryProps): PlanetaryResult {
+  const nPlanets = props.planets;
+  const cd = props.centerDistance;
+  const stageProps = props.stages;
+  if (!(Number.isInteger(nPlanets) && nPlanets >= 1)) {
+    throw new Error(`Invalid number of planets ${nPlanets}`);
+  }
+  if (!(cd > 0)) {
+    throw new Error(`Invalid center distance ${cd}`);
+  }
+  if (stageProps.length < 1 || stageProps.length > 2) {
+    throw new Error('A planetary must have 1 or 2 stages');
+  }
+  if (stageProps.length == 1 && stageProps[0].sunTeeth == undefined) {
+    throw new Error('A single stage planetary must have a sun');
+  }
+
+  const planetAngles: number[] = [];
+  const planetCenters: [number, number][] = [];
+  for (let i = 0; i < nPlanets; ++i) {
+    const angle = (i * 360) / nPlanets;
+    planetAngles.push(angle);
+    planetCenters.push(ID2D.rotate(angle).mapPoint(cd, 0));
+  }
+
+  const stages = stageProps.map((stage, stageIndex): PlanetaryStageResult => {
+    const {
+      ringTeeth: ringN,
+      planetTeeth: planetN,
+      sunTeeth: sunN,
+      ...pairProps
+    } = stage;
+    if (sunN != undefined && stageIndex > 0) {
+      throw new Error('Only the first stage can have a sun');
+    }
+    const ringPair = createGearPair({
+      ...pairProps,
+      gearTeeth: ringN,
+      pinionTeeth: planetN,
+      isInternalGear: true,
+      sizeType: 'centerDist',
+      size: cd,
+    });
+    // The planets must clear each other
+    if (
+      nPlanets > 1 &&
+      ringPair.pinionTipDiameter >= 2 * cd * Math.sin(Math.PI / nPlanets)
+    ) {
+      throw new Error(`${nPlanets} planets don't fit around the ring`);
+    }
+
+    // As the planets roll around the fixed ring, they turn by (1 - ringN/planetN)
+    // times the carrier angle.  A planet on the +x axis meshes with the ring
+    // without rotation.
+    const planetRotations = planetAngles.map((angle) =>
+      normalizeDegrees(angle - (angle * ringN) / planetN)
+    );
+    const planetPlacements = planetRotations.map((rot, i) =>
+      ID2D.translate(...planetCenters[i]).rotate(rot)
+    );
+
+    let sunPair: GearPairResult | undefined;
+    let sunPlacement: Matrix2D | undefined;
+    if (sunN != undefined) {
+      // The sun and ring pairs have the same module only if the center distances
+      // match
+      if (ringN != sunN + 2 * planetN) {
+        throw new Error(
+          `Ring teeth must be sun teeth + 2 * planet teeth (${
+            sunN + 2 * planetN
+          })`
+        );
+      }
+      // Each planet must be a whole number of sun teeth from the last one
+      if ((sunN + ringN) % nPlanets) {
+        throw new Error(
+          `Sun teeth + ring teeth (${
+            sunN + ringN
+          }) must be a multiple of the number of planets to space them equally`
+        );
+      }
+      // With the same cutter and module, the planet is the same as in the ring pair
+      sunPair = createGearPair({
+        ...pairProps,
+        gearTeeth: sunN,
+        pinionTeeth: planetN,
+        isInternalGear: false,
+        sizeType: 'centerDist',
+        size: cd,
+      });
+      // In the sun pair, the planet on the +x axis is rotated by 180 + 180/planetN.
+      // Turn the sun to mesh with an unrotated planet instead.
+      sunPlacement = ID2D.rotate(
+        normalizeDegrees((180 * (planetN + 1)) / sunN)
+      );
+    }
+
+    return {
+      ring: ringPair.gear,
+      planet: ringPair.pinion,
+      sun: sunPair?.gear,
+      ringPair,
+      sunPair,
+      ringPlacement: ID2D,
+      sunPlacement,
+      planetRotations,
+      planetPlacements,
+    };
+  });
+
+  let identicalPlanets = true;
+  let ratio: number;
+  const {
+    ringTeeth: ring1,
+    planetTeeth: planet1,
+    sunTeeth: sun1,
+  } = stageProps[0];
+  // sun turns per carrier turn
+  const sunRatio = sun1 == undefined ? 1 : 1 + ring1 / sun1;
+  if (stageProps.length == 1) {
+    ratio = sunRatio;
+  } else {
+    const { ringTeeth: ring2, planetTeeth: planet2 } = stageProps[1];
+    const r1 = ring1 / planet1;
+    const r2 = ring2 / planet2;
+    if (Math.abs(r2 - r1) < 1e-9) {
+      throw new Error(
+        "The stages have the same ring/planet ratio, so the output doesn't turn"
+      );
+    }
+    ratio = (sunRatio * r2) / (r2 - r1);
+    // The planets are the same if each one can be rotated to match the first, in
+    // both stages at once
+    const period = 360 / lcm(planet1, planet2);
+    const rots1 = stages[0].planetRotations;
+    const rots2 = stages[1].planetRotations;
+    for (let i = 1; i < nPlanets; ++i) {
+      const diff = rots1[i] - rots1[0] - (rots2[i] - rots2[0]);
+      const periods = diff / period;
+      if (Math.abs(periods - Math.round(periods)) > 1e-9) {
+        identicalPlanets = false;
+      }
+    }
+  }
+
+  return { stages, planetCenters, identicalPlanets, ratio };
+}
+
+function normalizeDegrees(deg: number): number {
+  deg %= 360;
+  return deg < 0 ? deg + 360 : deg;
+}
+
+function lcm(a: number, b: number): number {
+  let x = a;
+  let y = b;
+  while (y) {
+    [x, y] = [y, x % y];
+  }
+  return (a / x) * b;
+}
@@ -1,4 +1,5 @@
 import { PathFunc } from './types.js';
+import { angleFromTo } from './utils/arcUtils.js';
 
 /**
  * Properties defining a rack the can be used to cut gears
@@ -18,6 +19,29 @@ export interface RackProps {
   readonly topClrPercent: number;
   /** additional amount to extend downward teeth, in module% */
   readonly botClrPercent: number;
+  /** radius of the rounded tips of upward teeth, in module% */
+  readonly topRadiusPercent?: number | undefined;
+  /** radius of the rounded tips of downward teeth, in module% */
+  readonly botRadiusPercent?: number | undefined;
+  /**
+   * Amount of tip relief at the tops of the flanks, in module%.  The flanks are
+   * bent to cut this much more material, measured normal to the flanks, from the
+   * part below the rack at the top of the working depth.  Negative values cut
+   * material from the part above the rack instead.
+   */
+  readonly topReliefPercent?: number | undefined;
+  /**
+   * Height of the top relief, down from the top of the working depth, in module%.
+   * Default is a quarter of the working depth
+   */
+  readonly topReliefHeightPercent?: number | undefined;
+  /** Amount of relief at the bottoms of the flanks.  See `topReliefPercent` */
+  readonly botReliefPercent?: number | undefined;
+  /**
+   * Height of the bottom relief, up from the bottom of the working depth, in
+   * module%.  Default is a quarter of the working depth
+   */
+  readonly botReliefHeightPercent?: number | undefined;
 }
 export function makeRack(props: RackProps): PathFunc {
   const {
@@ -25,8 +49,8 @@ export function makeRack(props: RackProps): PathFunc {
     pressureAngle,
     profileShift,
     balancePercent,
-    topClrPercent: topReliefPercent,
-    botClrPercent: botReliefPercent,
+    topClrPercent,
+    botClrPercent,
     balanceAbsPercent,
   } = props;
 
@@ -40,17 +64,109 @@ export function makeRack(props: RackProps): PathFunc {
   const bkw = balanceAbsPercent / (200 * Math.PI);
   const freew = 0.5 - ah * tanPA;
   const cx = -0.25 - (freew * (balancePercent - 50)) / 100;
-  maxy += topReliefPercent / (100 * Math.PI);
-  miny -= botReliefPercent / (100 * Math.PI);
+  maxy += topClrPercent / (100 * Math.PI);
+  miny -= botClrPercent / (100 * Math.PI);
   const topx = (maxy - cy) * tanPA + cx;
   const botx = (miny - cy) * tanPA + cx;
+  const topr = (props.topRadiusPercent ?? 0) / (100 * Math.PI);
+  const botr = (props.botRadiusPercent ?? 0) / (100 * Math.PI);
+  if (!(topr >= 0 && botr >= 0)) {
+    throw new Error('Rack tip radius must not be negative');
+  }
+  const topRelief = (props.topReliefPercent ?? 0) / (100 * Math.PI);
+  const botRelief = (props.botReliefPercent ?? 0) / (100 * Math.PI);
+  const topReliefH =
+    props.topReliefHeightPercent != undefined
+      ? props.topReliefHeightPercent / (100 * Math.PI)
+      : ah / 4;
+  const botReliefH =
+    props.botReliefHeightPercent != undefined
+      ? props.botReliefHeightPercent / (100 * Math.PI)
+      : ah / 4;
+  if (
+    (topRelief && !(topReliefH > 0)) ||
+    (botRelief && !(botReliefH > 0)) ||
+    (topRelief && botRelief && topReliefH + botReliefH > ah + 1e-9)
+  ) {
+    throw new Error('Invalid rack relief height');
+  }
+
+  // Corners of the left flank, from bottom to top, with their corner radii.  The
+  // relieved parts of the flank are straight lines that diverge from the
+  // unrelieved flank at the start of the relief.
+  const flankX = (y: number) => (y - cy) * tanPA + cx - bkw;
+  const flank: [number, number, number][] = [];
+  if (botRelief) {
+    const y = cy - ah / 2 + botReliefH;
+    const shift = (botRelief * (y - miny)) / (botReliefH * cosPA);
+    flank.push([flankX(miny) + shift, miny, botr], [flankX(y), y, 0]);
+  } else {
+    flank.push([flankX(miny), miny, botr]);
+  }
+  if (topRelief) {
+    const y = cy + ah / 2 - topReliefH;
+    const shift = (topRelief * (maxy - y)) / (topReliefH * cosPA);
+    flank.push([flankX(y), y, 0], [flankX(maxy) + shift, maxy, topr]);
+  } else {
+    flank.push([flankX(maxy), maxy, topr]);
+  }
+  // The right flank is the mirror image of the left one
+  const corners = [
+    ...flank,
+    ...flank.map(([x, y, r]): [number, number, number] => [-x, y, r]).reverse(),
+  ];
+
+  // Round the corners.  For each one, find the turn and the distance from the
+  // corner to the ends of its arc.
+  const n = corners.length;
+  const cornerAt = (i: number): [number, number] => {
+    const [x, y] = corners[(i + n) % n];
+    return [x + Math.floor(i / n), y];
+  };
+  const turns: number[] = [];
+  const dists: number[] = [];
+  for (let i = 0; i < n; ++i) {
+    const [x0, y0] = cornerAt(i - 1);
+    const [x1, y1] = cornerAt(i);
+    const [x2, y2] = cornerAt(i + 1);
+    const turn = angleFromTo(x1 - x0, y1 - y0, x2 - x1, y2 - y1);
+    turns.push(turn);
+    dists.push(corners[i][2] * Math.tan(Math.abs(turn) * 0.5));
+  }
+  for (let i = 0; i < n; ++i) {
+    const [x0, y0] = cornerAt(i);
+    const [x1, y1] = cornerAt(i + 1);
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    // bottom and top segments must go left to right
+    if (
+      (dy == 0 && dx < 0) ||
+      dists[i] + dists[(i + 1) % n] > Math.sqrt(dx * dx + dy * dy) + 1e-9
+    ) {
+      throw new Error(
+        corners[i][2] || corners[(i + 1) % n][2]
+          ? 'Rack tip radius is too large for the teeth'
+          : 'Rack relief is too large for the teeth'
+      );
+    }
+  }
+  // the point at distance d from corner i, toward corner i + step
+  const along = (i: number, step: number, d: number): [number, number] => {
+    const [x0, y0] = cornerAt(i);
+    const [x1, y1] = cornerAt(i + step);
+    const len = Math.sqrt((x1 - x0) ** 2 + (y1 - y0) ** 2);
+    return [x0 + ((x1 - x0) * d) / len, y0 + ((y1 - y0) * d) / len];
+  };
+
   return (pen, doMove) => {
     if (doMove) {
-      pen.moveTo(-1.0 - botx + bkw, miny);
+      pen.moveTo(...along(-1, 1, dists[n - 1]));
+    }
+    for (let i = 0; i < n; ++i) {
+      pen.arcTo(...along(i, -1, dists[i]), 0);
+      if (dists[i] > 0) {
+        pen.arcTo(...along(i, 1, dists[i]), turns[i]);
+      }
     }
-    pen.arcTo(botx - bkw, miny, 0);
-    pen.arcTo(topx - bkw, maxy, 0);
-    pen.arcTo(-topx + bkw, maxy, 0);
-    pen.arcTo(-botx + bkw, miny, 0);
   };
 }
@@ -0,0 +1,191 @@
+import { makeRack, RackProps } from './rack.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { XForm } from './XFormPen.js';
+import { RecordingPen } from './RecordingPen.js';
+import { LastPointCapturePen } from './LastPointCapturePen.js';
+import { ID2D, Matrix2D, Sketch } from '../geom/index.js';
+import {
+  DEFAULT_BACKLASH_PERCENT,
+  DEFAULT_BALANCE_PERCENT,
+  DEFAULT_CLEARANCE_PERCENT,
+  DEFAULT_CONTACT_RATIO,
+  DEFAULT_CUTTER_TIP_RADIUS,
+  DEFAULT_FACE_TOL,
+  DEFAULT_FILLET_TOL,
+  DEFAULT_MAX_FILLET,
+  DEFAULT_PROFILE_SHIFT_PERCENT,
+  DEFAULT_RELIEF,
+  DEFAUT_PRESSURE_ANGLE,
+  GearPairProps,
+} from './index.js';
+
+export type RackSizeType = 'mod' | 'diaPitch';
+
+export interface RackAndPinionProps
+  extends Omit<
+    GearPairProps,
+    'gearTeeth' | 'isInternalGear' | 'sizeType' | 'gearCutter' | 'pinionCutter'
+  > {
+  readonly sizeType: RackSizeType;
+  /** Total length of the rack, along the x axis */
+  readonly rackLength: number;
+  /** Thickness of rack material below the roots of its teeth */
+  readonly rackBackHeight: number;
+}
+
+export interface RackAndPinionResult {
+  readonly pinion: Sketch;
+  readonly pinionPitchDiameter: number;
+  readonly pinionTipDiameter: number;
+  readonly pinionRootDiameter: number;
+  readonly pinionArcsPerTooth: number;
+  /**
+   * The rack, centered on the origin, with its pitch line along the x axis and its teeth
+   * pointing in the +y direction.  There is a tooth gap at x=0.
+   */
+  readonly rack: Sketch;
+  /** Distance between adjacent rack teeth */
+  readonly rackPitch: number;
+  /**
+   * Transform that places the pinion in mesh with the rack, with a pinion tooth
+   * in the rack's tooth gap at x=0.  Rotating the pinion by `a` degrees around its
+   * center moves the rack by +`a` * `pinionPitchDiameter` * PI / 360 in the x direction.
+   */
+  readonly pinionPlacement: Matrix2D;
+}
+
+export function createRackAndPinion(
+  props: RackAndPinionProps
+): RackAndPinionResult {
+  const clearancePercent =
+    props.clearanceModPercent ?? DEFAULT_CLEARANCE_PERCENT;
+  const backlashPercent = props.backlashModPercent ?? DEFAULT_BACKLASH_PERCENT;
+  const pressureAngle = props.pressureAngle ?? DEFAUT_PRESSURE_ANGLE;
+  const contactRatio = props.targetContactRatio ?? DEFAULT_CONTACT_RATIO;
+  const profileShift =
+    props.profileShiftPercent ?? DEFAULT_PROFILE_SHIFT_PERCENT;
+  const pinionTeeth = props.pinionTeeth;
+  const maxFillet = props.isMaxFillet ?? DEFAULT_MAX_FILLET;
+  const balancePercent = props.balancePercent ?? DEFAULT_BALANCE_PERCENT;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const filletTolPercent =
+    props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const tipRelief = props.tipReliefModPercent ?? DEFAULT_RELIEF;
+  const rootRelief = props.rootReliefModPercent ?? DEFAULT_RELIEF;
+  const sizeNumber = props.size;
+  const { rackLength, rackBackHeight } = props;
+
+  const pinionRadius = (pinionTeeth * 0.5) / Math.PI;
+
+  const szLen = props.sizeType === 'diaPitch' ? 1.0 : 1.0 / Math.PI;
+  if (!isFinite(sizeNumber) || sizeNumber <= 0) {
+    throw new Error(`Invalid size number ${sizeNumber}`);
+  }
+  const scale = sizeNumber / szLen;
+  if (!isFinite(rackLength) || rackLength <= 0) {
+    throw new Error(`Invalid rack length ${rackLength}`);
+  }
+  if (!isFinite(rackBackHeight) || rackBackHeight <= 0) {
+    throw new Error(`Invalid rack back height ${rackBackHeight}`);
+  }
+
+  const rackProps: RackProps = {
+    contactRatio,
+    pressureAngle,
+    profileShift,
+    balancePercent,
+    balanceAbsPercent: 0.0,
+    topClrPercent: 0,
+    botClrPercent: 0,
+    // All the teeth are external, with their tips at the top of the racks
+    topReliefPercent: tipRelief,
+    topReliefHeightPercent: props.tipReliefHeightModPercent,
+    botReliefPercent: rootRelief,
+    botReliefHeightPercent: props.rootReliefHeightModPercent,
+  };
+
+  const pinionRack = makeRack({
+    ...rackProps,
+    botClrPercent: clearancePercent,
+    botRadiusPercent: tipRadiusPercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+  // The linear rack is the limit of an external gear with infinitely many teeth,
+  // so it's just the rack that would cut that gear
+  const linearRack = makeRack({
+    ...rackProps,
+    balancePercent: 100 - rackProps.balancePercent,
+    profileShift: -profileShift,
+    botClrPercent: clearancePercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+
+  const pinionTooth = cutGearTooth(
+    pinionTeeth,
+    pinionRack,
+    faceTolPercent / (100 * Math.PI),
+    filletTolPercent / (100 * Math.PI),
+    maxFillet ? 'external' : 'none'
+  );
+  const pinionPath = pinionTooth.path;
+
+  // Repeat the rack teeth, shifted half a pitch to put a gap at x=0, and clip to length
+  const halfLen = rackLength * 0.5;
+  const nPeriods = Math.ceil(halfLen / scale) + 1;
+  const rackRecorder = new RecordingPen();
+  const clipPen = new XForm()
+    .clip(1, 0, -halfLen)
+    .clip(-1, 0, -halfLen)
+    .apply(rackRecorder);
+  for (let i = -nPeriods; i <= nPeriods; ++i) {
+    new XForm()
+      .scale(scale)
+      .translate(i + 0.5, 0)
+      .processPath(clipPen, linearRack, i == -nPeriods);
+  }
+  // The rack path ends at the bottom of a tooth gap
+  const rootPen = new LastPointCapturePen();
+  linearRack(rootPen, true);
+  const rackPath = rackRecorder.path;
+  const startPen = new LastPointCapturePen();
+  rackRecorder.reversedPath(startPen, true);
+  const endPen = new LastPointCapturePen();
+  rackPath(endPen, true);
+  if (startPen.x == undefined || endPen.x == undefined) {
+    throw new Error('Rack is empty');
+  }
+  const rackBottom = rootPen.y! * scale - rackBackHeight;
+  const startX = startPen.x;
+  const endX = endPen.x;
+  const endY = endPen.y!;
+
+  return {
+    pinion: (pen) =>
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        scale,
+        pinionPath,
+        pinionTeeth
+      ),
+    pinionPitchDiameter: pinionRadius * 2.0 * scale,
+    pinionTipDiameter: pinionTooth.maxRadius * 2.0 * scale,
+    pinionRootDiameter: pinionTooth.minRadius * 2.0 * scale,
+    pinionArcsPerTooth: pinionTooth.arcsPerTooth,
+    rack: (pen) => {
+      pen.move(startX, rackBottom);
+      pen.line(endX, rackBottom);
+      pen.line(endX, endY);
+      rackRecorder.reversedPath(new GearCutterPenAdapter(pen), false);
+      pen.line(startX, rackBottom);
+    },
+    rackPitch: scale,
+    pinionPlacement: ID2D.translate(0, pinionRadius * scale).rotate(-90),
+  };
+}
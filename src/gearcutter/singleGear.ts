@@ -0,0 +1,249 @@
+import { makeRack } from './rack.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { Sketch } from '../geom/index.js';
+import {
+  DEFAULT_CUTTER_TIP_RADIUS,
+  DEFAULT_FACE_TOL,
+  DEFAULT_FILLET_TOL,
+  DEFAULT_IS_INTERNAL,
+  DEFAULT_MAX_FILLET,
+  DEFAUT_PRESSURE_ANGLE,
+} from './index.js';
+import type { RackSizeType } from './rackAndPinion.js';
+import { involute, inverseInvolute } from './utils/involute.js';
+
+export const DEFAULT_ADDENDUM_PERCENT = 100;
+export const DEFAULT_DEDENDUM_PERCENT = 125;
+/** Half of the circular pitch */
+export const DEFAULT_TOOTH_THICKNESS_PERCENT = 50 * Math.PI;
+
+export interface GearProps {
+  readonly teeth: number;
+  readonly sizeType: RackSizeType;
+  readonly size: number;
+  readonly pressureAngle?: number | undefined;
+  readonly isInternalGear?: boolean | undefined;
+  /**
+   * Radial distance from the pitch circle to the tooth tips, in module%.
+   * Default 100
+   */
+  readonly addendumModPercent?: number | undefined;
+  /**
+   * Radial distance from the pitch circle to the bottoms of the tooth spaces, in
+   * module%.  This includes the clearance for the mating gear's tips.  Default 125
+   */
+  readonly dedendumModPercent?: number | undefined;
+  /**
+   * Circular thickness of the teeth at the pitch circle, in module%.  Use a thinner
+   * tooth for backlash, or a thicker one to match a profile shift.  Default is half
+   * of the circular pitch
+   */
+  readonly toothThicknessModPercent?: number | undefined;
+  readonly isMaxFillet?: boolean | undefined;
+  readonly faceToleranceModPercent?: number | undefined;
+  readonly filletToleranceModPercent?: number | undefined;
+  /**
+   * Radius of the rounded tips of the rack that cuts the teeth, in module%.
+   * Default 0
+   */
+  readonly cutterTipRadiusModPercent?: number | undefined;
+  /**
+   * Number of teeth on the mating gear, to calculate the requirements for the mesh.
+   * It must be an external gear with the same module and pressure angle.  Default is
+   * no mating gear
+   */
+  readonly matingTeeth?: number | undefined;
+  /**
+   * Circular thickness of the mating gear's teeth at its pitch circle, in module%.
+   * Default is half of the circular pitch
+   */
+  readonly matingToothThicknessModPercent?: number | undefined;
+}
+
+/**
+ * What the mating gear from [[GearProps]] needs to mesh with the gear
+ */
+export interface GearMatingRequirements {
+  /** Distance between the gear centers at which the teeth mesh without backlash */
+  readonly centerDistance: number;
+  /** Pressure angle at that center distance, in degrees */
+  readonly operatingPressureAngle: number;
+  /** Largest tip diameter of the mating gear that clears the roots of this gear */
+  readonly maxMatingTipDiameter: number;
+  /** Largest root diameter of the mating gear that clears the tips of this gear */
+  readonly maxMatingRootDiameter: number;
+}
+
+export interface GearResult {
+  /**
+   * The gear, centered on the origin.  External gears have a tooth on the +x axis,
+   * and internal gears have a tooth space there.
+   */
+  readonly gear: Sketch;
+  readonly teeth: number;
+  readonly pitchDiameter: number;
+  readonly baseDiameter: number;
+  /**
+   * Diameter of the circle through the tooth tips.  For internal gears, this is the
+   * smallest diameter of the gear outline.
+   */
+  readonly tipDiameter: number;
+  /**
+   * Diameter of the circle through the bottoms of the tooth spaces.  For internal
+   * gears, this is the largest diameter of the gear outline.
+   */
+  readonly rootDiameter: number;
+  /** Circular thickness of the teeth at the pitch circle */
+  readonly toothThickness: number;
+  readonly arcsPerTooth: number;
+  /** Requirements for the mating gear, if `matingTeeth` was given */
+  readonly mating: GearMatingRequirements | undefined;
+}
+
+/**
+ * Create a single involute gear with explicit tooth dimensions, to mate with an
+ * existing gear.
+ *
+ * Unlike [[createGearPair]], the addendum, dedendum, and tooth thickness are not
+ * derived from a target contact ratio.  The gear is cut by a rack with the given
+ * dimensions.
+ */
+export function createGear(props: GearProps): GearResult {
+  const teeth = props.teeth;
+  const pressureAngle = props.pressureAngle ?? DEFAUT_PRESSURE_ANGLE;
+  const isInternal = props.isInternalGear ?? DEFAULT_IS_INTERNAL;
+  const addendum = props.addendumModPercent ?? DEFAULT_ADDENDUM_PERCENT;
+  const dedendum = props.dedendumModPercent ?? DEFAULT_DEDENDUM_PERCENT;
+  const thickness =
+    props.toothThicknessModPercent ?? DEFAULT_TOOTH_THICKNESS_PERCENT;
+  const maxFillet = props.isMaxFillet ?? DEFAULT_MAX_FILLET;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const filletTolPercent =
+    props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const sizeNumber = props.size;
+
+  if (!(Number.isInteger(teeth) && teeth >= 4)) {
+    throw new Error(`Invalid number of gear teeth ${teeth}`);
+  }
+  if (!(pressureAngle > 0 && pressureAngle < 45)) {
+    throw new Error(`Invalid pressure angle ${pressureAngle}`);
+  }
+  if (!(addendum + dedendum > 0)) {
+    throw new Error('The whole depth of the teeth must be positive');
+  }
+  if (!(thickness > 0 && thickness < 100 * Math.PI)) {
+    throw new Error(`Invalid tooth thickness ${thickness}`);
+  }
+  const szLen = props.sizeType === 'diaPitch' ? 1.0 : 1.0 / Math.PI;
+  if (!isFinite(sizeNumber) || sizeNumber <= 0) {
+    throw new Error(`Invalid size number ${sizeNumber}`);
+  }
+  const scale = sizeNumber / szLen;
+  const module = scale / Math.PI;
+
+  // The rack cuts the part below it, which is the tooth of an external gear, but
+  // the tooth space of an internal one
+  const cutTop = isInternal ? dedendum : addendum;
+  const cutBottom = isInternal ? addendum : dedendum;
+  const cutThickness = isInternal ? 100 * Math.PI - thickness : thickness;
+  const pa = (pressureAngle * Math.PI) / 180;
+  // The rack has no separate clearance, so its working depth is the whole depth
+  const profileShift = (cutTop - cutBottom) * 0.5;
+  const rack = makeRack({
+    contactRatio:
+      (cutTop + cutBottom) / (100 * Math.PI * Math.sin(pa) * Math.cos(pa)),
+    pressureAngle,
+    profileShift,
+    balancePercent: 50,
+    // the balanced rack cuts half the pitch, plus the effect of the shift
+    balanceAbsPercent:
+      cutThickness - 50 * Math.PI - profileShift * 2 * Math.tan(pa),
+    topClrPercent: 0,
+    botClrPercent: 0,
+    topRadiusPercent: isInternal ? tipRadiusPercent : 0,
+    botRadiusPercent: isInternal ? 0 : tipRadiusPercent,
+  });
+  const tooth = cutGearTooth(
+    teeth,
+    rack,
+    faceTolPercent / (100 * Math.PI),
+    filletTolPercent / (100 * Math.PI),
+    maxFillet ? (isInternal ? 'internal' : 'external') : 'none'
+  );
+  const path = tooth.path;
+  const pitchDiameter = teeth * module;
+  const tipDiameter =
+    (isInternal ? tooth.minRadius : tooth.maxRadius) * 2.0 * scale;
+  const rootDiameter =
+    (isInternal ? tooth.maxRadius : tooth.minRadius) * 2.0 * scale;
+
+  let mating: GearMatingRequirements | undefined;
+  if (props.matingTeeth != undefined) {
+    const matingTeeth = props.matingTeeth;
+    const matingThickness =
+      props.matingToothThicknessModPercent ?? DEFAULT_TOOTH_THICKNESS_PERCENT;
+    if (!(Number.isInteger(matingTeeth) && matingTeeth >= 4)) {
+      throw new Error(`Invalid number of mating gear teeth ${matingTeeth}`);
+    }
+    if (isInternal && matingTeeth >= teeth) {
+      throw new Error(
+        'The mating gear must have fewer teeth than the internal gear'
+      );
+    }
+    if (!(matingThickness > 0 && matingThickness < 100 * Math.PI)) {
+      throw new Error(`Invalid mating tooth thickness ${matingThickness}`);
+    }
+    // With zero backlash, the thicknesses at the operating pitch circles fill the
+    // pitch exactly.  This determines the operating pressure angle.
+    const invOperating = isInternal
+      ? involute(pa) +
+        (100 * Math.PI - thickness - matingThickness) /
+          (100 * (teeth - matingTeeth))
+      : involute(pa) +
+        (thickness + matingThickness - 100 * Math.PI) /
+          (100 * (teeth + matingTeeth));
+    if (!(invOperating > 0)) {
+      throw new Error('The teeth are too thin to mesh without backlash');
+    }
+    const operatingPA = inverseInvolute(invOperating);
+    const centerDistance =
+      (((isInternal ? teeth - matingTeeth : teeth + matingTeeth) * module) /
+        2) *
+      (Math.cos(pa) / Math.cos(operatingPA));
+    mating = {
+      centerDistance,
+      operatingPressureAngle: (operatingPA * 180) / Math.PI,
+      maxMatingTipDiameter: isInternal
+        ? rootDiameter - centerDistance * 2
+        : centerDistance * 2 - rootDiameter,
+      maxMatingRootDiameter: isInternal
+        ? tipDiameter - centerDistance * 2
+        : centerDistance * 2 - tipDiameter,
+    };
+  }
+
+  return {
+    gear: (pen) =>
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        scale,
+        path,
+        teeth
+      ),
+    teeth,
+    pitchDiameter,
+    baseDiameter: pitchDiameter * Math.cos(pa),
+    tipDiameter,
+    rootDiameter,
+    toothThickness: (thickness * module) / 100,
+    arcsPerTooth: tooth.arcsPerTooth,
+    mating,
+  };
+}
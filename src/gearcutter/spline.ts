@@ -0,0 +1,217 @@
+import { makeRack, RackProps } from './rack.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { Sketch } from '../geom/index.js';
+import {
+  DEFAULT_CUTTER_TIP_RADIUS,
+  DEFAULT_FACE_TOL,
+  DEFAULT_FILLET_TOL,
+} from './index.js';
+
+export type SplineStandard = 'B92.1' | 'DIN5480';
+
+/**
+ * Fit between the shaft and hub teeth.  'sliding' lets the hub slide along the
+ * shaft, 'close' has minimal play, and 'press' has a small interference.
+ */
+export type SplineFit = 'sliding' | 'close' | 'press';
+
+/** Circular clearance between the shaft and hub teeth for each fit, in module% */
+export const SPLINE_FIT_BACKLASH: Readonly<Record<SplineFit, number>> = {
+  sliding: 4,
+  close: 1,
+  press: -1,
+};
+
+export interface SplinePairProps {
+  readonly teeth: number;
+  /** 'mod' for module, or 'diaPitch' for diametral pitch */
+  readonly sizeType: 'mod' | 'diaPitch';
+  readonly size: number;
+  /**
+   * 'B92.1' for ANSI B92.1 flat root splines, with a working depth of 1, 0.9, or
+   * 0.8 module for pressure angles of 30, 37.5, and 45 degrees.
+   *
+   * 'DIN5480' for DIN 5480 splines, with 30 degree pressure angle and 0.9 module
+   * working depth, profile shifted to fit a reference diameter.
+   *
+   * Default 'B92.1'
+   */
+  readonly standard?: SplineStandard | undefined;
+  /** Pressure angle in degrees: 30, 37.5, or 45.  Default 30 */
+  readonly pressureAngle?: number | undefined;
+  /**
+   * DIN 5480 reference diameter, which is close to the shaft's major diameter.
+   * Default is module * (teeth + 1.1), for no profile shift.
+   */
+  readonly referenceDiameter?: number | undefined;
+  /** Default 'sliding' */
+  readonly fit?: SplineFit | undefined;
+  /**
+   * Circular clearance between the shaft and hub teeth at the pitch circle, in
+   * module%.  This overrides `fit`, and can be increased to compensate for printer
+   * tolerances.
+   */
+  readonly backlashModPercent?: number | undefined;
+  /**
+   * Space between the tooth tips and the roots of the other part, in module%.
+   * The default is 17.5 for 30 degree B92.1 splines, 15 for the other B92.1 splines,
+   * and 10 for DIN 5480 splines.
+   */
+  readonly clearanceModPercent?: number | undefined;
+  /** Radius of the rounded tips of the racks that cut the teeth, in module%.  Default 0 */
+  readonly cutterTipRadiusModPercent?: number | undefined;
+  readonly faceToleranceModPercent?: number | undefined;
+  readonly filletToleranceModPercent?: number | undefined;
+}
+
+export interface SplinePairResult {
+  /** The external spline, centered on the origin, with a tooth on the +x axis */
+  shaft: Sketch;
+  /**
+   * The outline of the hole in the hub, centered on the origin, with a tooth
+   * space on the +x axis, so that it fits the shaft without rotation
+   */
+  hub: Sketch;
+  teeth: number;
+  /** module * teeth */
+  pitchDiameter: number;
+  /** Diameter of the circle through the shaft tooth tips */
+  shaftMajorDiameter: number;
+  /** Diameter of the circle through the bottoms of the shaft tooth spaces */
+  shaftMinorDiameter: number;
+  /** Diameter of the circle through the hub tooth tips, the smallest diameter of the hole */
+  hubMinorDiameter: number;
+  /** Diameter of the circle through the bottoms of the hub tooth spaces */
+  hubMajorDiameter: number;
+}
+
+/**
+ * Create a matching involute spline shaft and hub.
+ *
+ * The teeth are cut with straight-sided racks, like the gears from
+ * [[createGearPair]], with the working depth and root clearance of the selected
+ * standard.
+ */
+export function createSplinePair(props: SplinePairProps): SplinePairResult {
+  const teeth = props.teeth;
+  const standard = props.standard ?? 'B92.1';
+  const pressureAngle = props.pressureAngle ?? 30;
+  const fit = props.fit ?? 'sliding';
+  const backlashPercent = props.backlashModPercent ?? SPLINE_FIT_BACKLASH[fit];
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const filletTolPercent =
+    props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+
+  if (!(Number.isInteger(teeth) && teeth >= 6)) {
+    throw new Error(`Invalid number of spline teeth ${teeth}`);
+  }
+  if (!isFinite(props.size) || props.size <= 0) {
+    throw new Error(`Invalid size number ${props.size}`);
+  }
+  if (backlashPercent == undefined) {
+    throw new Error(`Unknown spline fit ${fit}`);
+  }
+  // module in the units of the result
+  const module = props.sizeType === 'diaPitch' ? 1.0 / props.size : props.size;
+
+  // addendum and default clearance, in modules
+  let addendum: number;
+  let defaultClearance: number;
+  let profileShiftPercent = 0;
+  if (standard === 'DIN5480') {
+    if (pressureAngle != 30) {
+      throw new Error('DIN 5480 splines have a 30 degree pressure angle');
+    }
+    addendum = 0.45;
+    defaultClearance = 0.1;
+    if (props.referenceDiameter != undefined) {
+      profileShiftPercent =
+        (50 * (props.referenceDiameter - module * (teeth + 1.1))) / module;
+    }
+  } else if (standard === 'B92.1') {
+    if (props.referenceDiameter != undefined) {
+      throw new Error('Only DIN 5480 splines have a reference diameter');
+    }
+    if (pressureAngle == 30) {
+      addendum = 0.5;
+      defaultClearance = 0.175;
+    } else if (pressureAngle == 37.5) {
+      addendum = 0.45;
+      defaultClearance = 0.15;
+    } else if (pressureAngle == 45) {
+      addendum = 0.4;
+      defaultClearance = 0.15;
+    } else {
+      throw new Error(
+        'B92.1 splines have a pressure angle of 30, 37.5, or 45 degrees'
+      );
+    }
+  } else {
+    throw new Error(`Unknown spline standard ${standard}`);
+  }
+  const clearancePercent = props.clearanceModPercent ?? defaultClearance * 100;
+
+  // The rack is in units where the pitch is 1, so the module is 1/PI
+  const paRad = (pressureAngle * Math.PI) / 180;
+  const rackProps: RackProps = {
+    contactRatio:
+      (2 * addendum) / (Math.PI * Math.sin(paRad) * Math.cos(paRad)),
+    pressureAngle,
+    profileShift: profileShiftPercent,
+    balancePercent: 50,
+    balanceAbsPercent: 0,
+    topClrPercent: 0,
+    botClrPercent: 0,
+  };
+  const shaftRack = makeRack({
+    ...rackProps,
+    botClrPercent: clearancePercent,
+    botRadiusPercent: tipRadiusPercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+  const hubRack = makeRack({
+    ...rackProps,
+    topClrPercent: clearancePercent,
+    topRadiusPercent: tipRadiusPercent,
+    balanceAbsPercent: backlashPercent * 0.5,
+  });
+
+  const faceT = faceTolPercent / (100 * Math.PI);
+  const filletT = filletTolPercent / (100 * Math.PI);
+  const shaftTooth = cutGearTooth(teeth, shaftRack, faceT, filletT, 'none');
+  const hubTooth = cutGearTooth(teeth, hubRack, faceT, filletT, 'none');
+  const shaftPath = shaftTooth.path;
+  const hubPath = hubTooth.path;
+  const scale = module * Math.PI;
+
+  return {
+    shaft: (pen) =>
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        scale,
+        shaftPath,
+        teeth
+      ),
+    hub: (pen) =>
+      drawGearFromTooth(
+        new GearCutterPenAdapter(pen),
+        true,
+        scale,
+        hubPath,
+        teeth
+      ),
+    teeth,
+    pitchDiameter: module * teeth,
+    shaftMajorDiameter: shaftTooth.maxRadius * 2.0 * scale,
+    shaftMinorDiameter: shaftTooth.minRadius * 2.0 * scale,
+    hubMinorDiameter: hubTooth.minRadius * 2.0 * scale,
+    hubMajorDiameter: hubTooth.maxRadius * 2.0 * scale,
+  };
+}
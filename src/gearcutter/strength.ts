@@ -0,0 +1,358 @@
+import { PolylinePen, Sketch } from '../geom/index.js';
+import type { GearPairResult } from './index.js';
+
+/**
+ * Material properties for gear strength calculations, in MPa
+ */
+export interface GearMaterial {
+  readonly elasticModulus: number;
+  readonly poissonRatio: number;
+  /** Allowable bending stress at the tooth root */
+  readonly bendingStrength: number;
+  /** Allowable contact stress on the tooth faces */
+  readonly contactStrength: number;
+}
+
+/**
+ * Rough properties of common gear materials.  The strengths of printed parts
+ * depend a lot on the printer settings and the print orientation, so these are
+ * only a starting point.
+ */
+export const GEAR_MATERIALS = {
+  PLA: {
+    elasticModulus: 3500,
+    poissonRatio: 0.36,
+    bendingStrength: 40,
+    contactStrength: 70,
+  },
+  PETG: {
+    elasticModulus: 2100,
+    poissonRatio: 0.38,
+    bendingStrength: 30,
+    contactStrength: 55,
+  },
+  ABS: {
+    elasticModulus: 2200,
+    poissonRatio: 0.35,
+    bendingStrength: 28,
+    contactStrength: 50,
+  },
+  ASA: {
+    elasticModulus: 2000,
+    poissonRatio: 0.35,
+    bendingStrength: 28,
+    contactStrength: 50,
+  },
+  PA12: {
+    elasticModulus: 1600,
+    poissonRatio: 0.4,
+    bendingStrength: 30,
+    contactStrength: 60,
+  },
+  POM: {
+    elasticModulus: 2900,
+    poissonRatio: 0.35,
+    bendingStrength: 45,
+    contactStrength: 80,
+  },
+  steel: {
+    elasticModulus: 206000,
+    poissonRatio: 0.3,
+    bendingStrength: 200,
+    contactStrength: 600,
+  },
+  aluminum: {
+    elasticModulus: 69000,
+    poissonRatio: 0.33,
+    bendingStrength: 90,
+    contactStrength: 300,
+  },
+  brass: {
+    elasticModulus: 100000,
+    poissonRatio: 0.34,
+    bendingStrength: 80,
+    contactStrength: 250,
+  },
+} as const satisfies Record<string, GearMaterial>;
+
+export type GearMaterialName = keyof typeof GEAR_MATERIALS;
+
+export interface GearStrengthProps {
+  /** Torque on the pinion, in N*mm */
+  readonly pinionTorque: number;
+  /** Width of the gear teeth, along the axis, in mm */
+  readonly faceWidth: number;
+  /** The name of a common material, or custom material properties */
+  readonly gearMaterial: GearMaterialName | GearMaterial;
+  /** Default is the same as the gear */
+  readonly pinionMaterial?: GearMaterialName | GearMaterial | undefined;
+}
+
+/**
+ * Bending analysis of one tooth, in mm and MPa
+ */
+export interface ToothBendingReport {
+  /** Thickness of the tooth at the critical section */
+  readonly criticalThickness: number;
+  /**
+   * Distance from the critical section to the point where the line of the load
+   * crosses the tooth center line
+   */
+  readonly criticalHeight: number;
+  /**
+   * Smallest radius of the root fillet.  This is 0 if the root has a sharp corner,
+   * which makes the stress concentration infinite.  Use `isMaxFillet` or
+   * `cutterTipRadiusModPercent` to round it.
+   */
+  readonly filletRadius: number;
+  /** Dolan-Broghamer stress concentration factor for the fillet */
+  readonly stressConcentration: number;
+  readonly bendingStress: number;
+  readonly bendingSafetyFactor: number;
+}
+
+export interface GearStrengthReport {
+  readonly gear: ToothBendingReport;
+  readonly pinion: ToothBendingReport;
+  /** Hertzian contact stress at the pitch point, in MPa */
+  readonly contactStress: number;
+  readonly contactSafetyFactor: number;
+  /** Force between the teeth, tangent to the pitch circles, in N */
+  readonly tangentialLoad: number;
+}
+
+/**
+ * Estimate the tooth stresses in a gear pair from [[createGearPair]].
+ *
+ * The gear sketches must be in mm.  The bending stress is calculated for the
+ * worst case, with all the load on a single tooth at its tip.  Instead of
+ * textbook Lewis form factors, the critical section and fillet radius are
+ * measured on the generated tooth profiles, so fillets, profile shift, and
+ * undercut are all taken into account.
+ *
+ * The bending stress is only finite if the tooth roots are rounded.  The rack
+ * rounds the roots of external gears, but internal gears have sharp roots by
+ * default, so their bending stress is Infinity and their safety factor is 0.
+ * Set `isMaxFillet` or `cutterTipRadiusModPercent` to round them.
+ */
+export function analyzeGearStrength(
+  pair: GearPairResult,
+  props: GearStrengthProps
+): GearStrengthReport {
+  const torque = props.pinionTorque;
+  const faceWidth = props.faceWidth;
+  const gearMaterial = getMaterial(props.gearMaterial);
+  const pinionMaterial = getMaterial(
+    props.pinionMaterial ?? props.gearMaterial
+  );
+  if (!(torque >= 0)) {
+    throw new Error(`Invalid torque ${torque}`);
+  }
+  if (!(faceWidth > 0)) {
+    throw new Error(`Invalid face width ${faceWidth}`);
+  }
+  const r1 = pair.pinionPitchDiameter / 2;
+  const r2 = pair.gearPitchDiameter / 2;
+  const rb1 = pair.mesh.pinionBaseDiameter / 2;
+  const rb2 = pair.mesh.gearBaseDiameter / 2;
+  const cosPA = rb1 / r1;
+  const pa = Math.acos(cosPA);
+  const sinPA = Math.sin(pa);
+  // load along the line of action
+  const normalLoad = torque / rb1;
+
+  // Hertz contact between two cylinders with the radii of curvature of the
+  // involutes at the pitch point.  Internal gear flanks are concave.
+  const rho1 = r1 * sinPA;
+  const rho2 = r2 * sinPA;
+  const curvature = 1 / rho1 + (pair.isInternalGear ? -1 : 1) / rho2;
+  const compliance =
+    (1 - pinionMaterial.poissonRatio ** 2) / pinionMaterial.elasticModulus +
+    (1 - gearMaterial.poissonRatio ** 2) / gearMaterial.elasticModulus;
+  const contactStress = Math.sqrt(
+    (normalLoad * curvature) / (Math.PI * faceWidth * compliance)
+  );
+
+  return {
+    gear: analyzeToothBending(
+      pair.gear,
+      pair.gearTeeth,
+      pair.isInternalGear,
+      r2,
+      rb2,
+      pa,
+      normalLoad,
+      faceWidth,
+      gearMaterial
+    ),
+    pinion: analyzeToothBending(
+      pair.pinion,
+      pair.pinionTeeth,
+      false,
+      r1,
+      rb1,
+      pa,
+      normalLoad,
+      faceWidth,
+      pinionMaterial
+    ),
+    contactStress,
+    contactSafetyFactor:
+      Math.min(gearMaterial.contactStrength, pinionMaterial.contactStrength) /
+      contactStress,
+    tangentialLoad: torque / r1,
+  };
+}
+
+function getMaterial(material: GearMaterialName | GearMaterial): GearMaterial {
+  const ret: GearMaterial | undefined =
+    typeof material == 'string' ? GEAR_MATERIALS[material] : material;
+  if (!ret) {
+    throw new Error(`Unknown gear material ${material}`);
+  }
+  return ret;
+}
+
+/**
+ * Find the critical section of the tooth on the +x axis with the Lewis parabola,
+ * and calculate the bending stress there.
+ *
+ * @param pa pressure angle in radians
+ */
+function analyzeToothBending(
+  sketch: Sketch,
+  nTeeth: number,
+  isInternal: boolean,
+  pitchRadius: number,
+  baseRadius: number,
+  pa: number,
+  normalLoad: number,
+  faceWidth: number,
+  material: GearMaterial
+): ToothBendingReport {
+  const halfTooth = Math.PI / nTeeth;
+  const sampler = new PolylinePen(pitchRadius * 1e-6);
+  sketch(sampler);
+  // internal gear teeth are centered on the spaces between the drawn teeth.
+  // Rotate the tooth onto the +x axis, and keep just that tooth.
+  const rot = isInternal ? -halfTooth : 0;
+  const c = Math.cos(rot);
+  const s = Math.sin(rot);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  // the gear is the first outline
+  const points = sampler.paths[0] ?? [];
+  for (let i = 0; i < points.length; i += 2) {
+    const x0 = points[i];
+    const y0 = points[i + 1];
+    const x = x0 * c - y0 * s;
+    const y = x0 * s + y0 * c;
+    if (x > 0 && Math.abs(Math.atan2(y, x)) <= halfTooth) {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+  const radius = (i: number) => Math.sqrt(xs[i] * xs[i] + ys[i] * ys[i]);
+
+  // The load is at the corner of the tooth tip on the +y side
+  let tipRadius = isInternal ? Infinity : 0;
+  for (let i = 0; i < xs.length; ++i) {
+    const r = radius(i);
+    tipRadius = isInternal ? Math.min(tipRadius, r) : Math.max(tipRadius, r);
+  }
+  let corner = -1;
+  for (let i = 0; i < xs.length; ++i) {
+    if (
+      Math.abs(radius(i) - tipRadius) <= tipRadius * 1e-6 &&
+      (corner < 0 || ys[i] > ys[corner])
+    ) {
+      corner = i;
+    }
+  }
+  if (corner < 0) {
+    throw new Error("Can't find the gear tooth tip");
+  }
+  const cx = xs[corner];
+  const cy = ys[corner];
+  // The load is along the normal to the involute flank, which is tangent to the
+  // base circle.  It pushes the tooth toward -y.
+  const cornerAngle = Math.atan2(cy, cx);
+  const rollAngle = Math.acos(Math.min(baseRadius / tipRadius, 1));
+  const tangentAngle = cornerAngle + (isInternal ? rollAngle : -rollAngle);
+  const bx = baseRadius * Math.cos(tangentAngle);
+  const by = baseRadius * Math.sin(tangentAngle);
+  const len = Math.sqrt((bx - cx) ** 2 + (by - cy) ** 2);
+  let nx = 0;
+  let ny = -1;
+  if (len > 0) {
+    nx = (isInternal ? cx - bx : bx - cx) / len;
+    ny = (isInternal ? cy - by : by - cy) / len;
+  }
+  // where the line of the load crosses the tooth center line
+  const loadX = ny < 0 ? cx - (cy / ny) * nx : cx;
+
+  // The critical section is where the Lewis parabola through the load point
+  // touches the tooth, i.e., where h/t^2 is largest
+  let criticalThickness = 0;
+  let criticalHeight = 0;
+  let best = 0;
+  for (let i = 0; i < xs.length; ++i) {
+    const h = isInternal ? xs[i] - loadX : loadX - xs[i];
+    const t = ys[i] * 2;
+    if (h > 0 && t > 0 && h / (t * t) > best) {
+      best = h / (t * t);
+      criticalThickness = t;
+      criticalHeight = h;
+    }
+  }
+
+  // The smallest concave arc on the root side of the pitch circle.  The flanks of
+  // internal gears are concave too, so arcs that are not much tighter than the
+  // involute are ignored.
+  let filletRadius = Infinity;
+  for (const [r, turn, mx, my] of sampler.arcs[0] ?? []) {
+    const x = mx * c - my * s;
+    const y = mx * s + my * c;
+    if (
+      y < 0 ||
+      Math.abs(Math.atan2(y, x)) > halfTooth ||
+      x < 0 ||
+      (isInternal ? turn < 0 : turn > 0)
+    ) {
+      continue;
+    }
+    const mr = Math.sqrt(x * x + y * y);
+    const involuteRadius = Math.sqrt(Math.max(mr * mr - baseRadius ** 2, 0));
+    if (
+      isInternal
+        ? mr > pitchRadius && r < involuteRadius * 0.5
+        : mr < pitchRadius
+    ) {
+      filletRadius = Math.min(filletRadius, r);
+    }
+  }
+  if (!isFinite(filletRadius)) {
+    filletRadius = 0;
+  }
+
+  // Dolan-Broghamer stress concentration factor
+  const kh = 0.34 - 0.4583662 * pa;
+  const kl = 0.316 - 0.4583662 * pa;
+  const km = 0.29 + 0.4583662 * pa;
+  const stressConcentration =
+    kh +
+    Math.pow(criticalThickness / filletRadius, kl) *
+      Math.pow(criticalThickness / criticalHeight, km);
+
+  const bendingStress =
+    (stressConcentration * 6 * normalLoad * Math.abs(ny) * criticalHeight) /
+    (faceWidth * criticalThickness * criticalThickness);
+  return {
+    criticalThickness,
+    criticalHeight,
+    filletRadius,
+    stressConcentration,
+    bendingStress,
+    bendingSafetyFactor: material.bendingStrength / bendingStress,
+  };
+}
@@ -185,8 +185,10 @@ export function interpolateArcTurn(
   const midx = -versine(target_turn - halfturn);
   // we need to scale so that 2*endy maps to 1, which will map to the p1-p2 segment.
   const scale = 0.5 / endy;
-  // forward and cross factors
-  const ffac = midy * scale;
-  const cfac = (midx - endx) * scale;
+  // forward and cross factors.  The unit circle chord is vertical and centered on the x axis,
+  // so forward positions are measured from its midpoint, and a left turn bulges toward +x,
+  // which is to the right.
+  const ffac = midy * scale + 0.5;
+  const cfac = (endx - midx) * scale;
   return pointFromForwardAndCrossFactors(x1, y1, x2, y2, ffac, cfac);
 }
@@ -0,0 +1,22 @@
+/**
+ * The involute function, inv(a) = tan(a) - a
+ */
+export function involute(a: number): number {
+  return Math.tan(a) - a;
+}
+
+/**
+ * Get the angle a in [0, PI/2) for which tan(a) - a = inv
+ */
+export function inverseInvolute(inv: number): number {
+  let a = Math.min(Math.cbrt(inv * 3), 1.5);
+  for (let i = 0; i < 50; ++i) {
+    const t = Math.tan(a);
+    const step = (t - a - inv) / (t * t);
+    a -= step;
+    if (Math.abs(step) < 1e-15) {
+      break;
+    }
+  }
+  return a;
+}
@@ -0,0 +1,110 @@
+import { Pen } from '../types.js';
+import { biArcApproximate, drawBiArc, PointAndTangent } from './biarc.js';
+
+/**
+ * A smooth curve, given as a function that returns the point at parameter `t`, and
+ * the unit tangent in the direction of increasing `t`
+ */
+export type ParametricCurve = (t: number) => PointAndTangent;
+
+/**
+ * Draw a sequence of biarcs through point and tangent samples, as produced
+ * by [[biArcApproximate]].  The pen must already be at the first sample.
+ */
+export function drawBiArcs(pen: Pen, samples: PointAndTangent[]): void {
+  for (let i = 1; i < samples.length; ++i) {
+    const [ax0, ay0, tx0, ty0] = samples[i - 1];
+    const [ax1, ay1, tx1, ty1] = samples[i];
+    const cx = ax1 - ax0;
+    const cy = ay1 - ay0;
+    const clen = Math.sqrt(cx * cx + cy * cy);
+    if (
+      Math.abs(tx0 * cy - ty0 * cx) < clen * 1e-9 &&
+      Math.abs(tx1 * cy - ty1 * cx) < clen * 1e-9
+    ) {
+      // straight lines can stay straight
+      pen.arcTo(ax1, ay1, 0);
+    } else {
+      drawBiArc(pen, samples[i - 1], samples[i]);
+    }
+  }
+}
+
+/**
+ * Approximate a parametric curve with biarcs.
+ *
+ * The curve is split at its inflection points, and each piece is sampled and
+ * approximated separately.  The curve must not have cusps.
+ *
+ * @param pen target pen
+ * @param curve the curve to draw
+ * @param t0 starting parameter
+ * @param t1 ending parameter
+ * @param nSamples number of samples to take over the whole parameter range.  The
+ *      curve should not turn much more than 10 degrees between samples.
+ * @param tolerance maximum distance between the samples and the biarcs
+ * @param doMove true to move to the start of the curve.  Otherwise, the pen must
+ *      already be there.
+ */
+export function drawParametricCurve(
+  pen: Pen,
+  curve: ParametricCurve,
+  t0: number,
+  t1: number,
+  nSamples: number,
+  tolerance: number,
+  doMove: boolean
+): void {
+  if (doMove) {
+    const [x, y] = curve(t0);
+    pen.moveTo(x, y);
+  }
+  if (!(t1 > t0)) {
+    return;
+  }
+  nSamples = Math.max(Math.ceil(nSamples), 2);
+  // find the inflection points
+  const dt = (t1 - t0) / nSamples;
+  const turnAt = (t: number) => {
+    const h = dt * 1e-3;
+    const [, , tx0, ty0] = curve(Math.max(t - h, t0));
+    const [, , tx1, ty1] = curve(Math.min(t + h, t1));
+    return tx0 * ty1 - ty0 * tx1;
+  };
+  const breaks = [t0];
+  let prevT = t0;
+  let prevTurn = turnAt(t0);
+  for (let i = 1; i <= nSamples; ++i) {
+    const t = i < nSamples ? t0 + i * dt : t1;
+    const turn = turnAt(t);
+    if (prevTurn * turn < 0) {
+      let lo = prevT;
+      let hi = t;
+      for (let j = 0; j < 50 && hi - lo > dt * 1e-9; ++j) {
+        const mid = (lo + hi) * 0.5;
+        if (turnAt(mid) * prevTurn > 0) {
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
+      breaks.push((lo + hi) * 0.5);
+    }
+    if (turn !== 0) {
+      prevTurn = turn;
+      prevT = t;
+    }
+  }
+  breaks.push(t1);
+
+  for (let i = 1; i < breaks.length; ++i) {
+    const start = breaks[i - 1];
+    const end = breaks[i];
+    const n = Math.max(Math.ceil((end - start) / dt), 2);
+    const samples: PointAndTangent[] = [];
+    for (let j = 0; j <= n; ++j) {
+      samples.push(curve(j < n ? start + ((end - start) * j) / n : end));
+    }
+    drawBiArcs(pen, biArcApproximate(samples, tolerance));
+  }
+}
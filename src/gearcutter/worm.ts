@@ -0,0 +1,284 @@
+import { makeRack, RackProps } from './rack.js';
+import {
+  cutGearTooth,
+  drawGearFromTooth,
+  GearCutterPenAdapter,
+} from './gearTooth.js';
+import { CircleWrapPen } from './CircleWrapPen.js';
+import { XForm } from './XFormPen.js';
+import { LastPointCapturePen } from './LastPointCapturePen.js';
+import {
+  DEGREE,
+  FRONTVIEW,
+  Part,
+  RIGHTVIEW,
+  Sketch,
+  TOPVIEW,
+} from '../geom/index.js';
+import {
+  DEFAULT_BACKLASH_PERCENT,
+  DEFAULT_BALANCE_PERCENT,
+  DEFAULT_CLEARANCE_PERCENT,
+  DEFAULT_CONTACT_RATIO,
+  DEFAULT_CUTTER_TIP_RADIUS,
+  DEFAULT_FACE_TOL,
+  DEFAULT_FILLET_TOL,
+  DEFAULT_MAX_FILLET,
+  DEFAULT_PROFILE_SHIFT_PERCENT,
+  DEFAUT_PRESSURE_ANGLE,
+  GearPairProps,
+} from './index.js';
+import type { RackSizeType } from './rackAndPinion.js';
+
+export const DEFAULT_WORM_STARTS = 1;
+/** Default worm pitch diameter, in modules */
+export const DEFAULT_WORM_DIAMETER_MODS = 10;
+
+export interface WormDriveProps
+  extends Omit<
+    GearPairProps,
+    | 'gearTeeth'
+    | 'pinionTeeth'
+    | 'isInternalGear'
+    | 'sizeType'
+    | 'gearCutter'
+    | 'pinionCutter'
+    | 'tipReliefModPercent'
+    | 'tipReliefHeightModPercent'
+    | 'rootReliefModPercent'
+    | 'rootReliefHeightModPercent'
+  > {
+  /** How `size` is measured.  This is the axial module or pitch of the worm */
+  readonly sizeType: RackSizeType;
+  readonly wheelTeeth: number;
+  /** Number of threads on the worm.  Default 1 */
+  readonly wormStarts?: number | undefined;
+  /** Pitch diameter of the worm.  Default is 10 modules */
+  readonly wormPitchDiameter?: number | undefined;
+  /** Length of the worm along its axis */
+  readonly wormLength: number;
+  /** Thickness of the worm wheel */
+  readonly wheelFaceWidth: number;
+  /** true for a left-handed worm and wheel.  Default false */
+  readonly isLeftHanded?: boolean | undefined;
+}
+
+export interface WormDriveResult {
+  /**
+   * The worm.  Its axis is parallel to the x axis, at y = -`centerDistance`, z = 0.
+   * It extends from x = -`wormLength`/2 to `wormLength`/2.
+   */
+  readonly worm: Part;
+  /**
+   * The worm wheel.  Its axis is the z axis, and it extends from
+   * z = -`wheelFaceWidth`/2 to `wheelFaceWidth`/2.  Its outside is throated
+   * to wrap around the worm.
+   */
+  readonly wheel: Part;
+  /** Cross-section of the worm perpendicular to its axis, at x = 0 */
+  readonly wormSection: Sketch;
+  /**
+   * Profile of the worm wheel teeth before they are trimmed to the throat.  A tooth points
+   * in the -y direction, toward the worm.
+   */
+  readonly wheelProfile: Sketch;
+  readonly wormPitchDiameter: number;
+  readonly wheelPitchDiameter: number;
+  /** Diameter of the wheel tips in its center plane, at the bottom of the throat */
+  readonly wheelTipDiameter: number;
+  readonly wheelRootDiameter: number;
+  readonly wheelArcsPerTooth: number;
+  readonly centerDistance: number;
+  /** Distance between adjacent threads, along the worm axis */
+  readonly axialPitch: number;
+  /** Distance that a thread advances along the worm axis in one turn */
+  readonly lead: number;
+  /**
+   * Angle between the threads and the plane perpendicular to the worm axis, in degrees.
+   * Worm drives with small lead angles are self-locking.
+   */
+  readonly leadAngle: number;
+  /** Turns of the worm per turn of the wheel */
+  readonly ratio: number;
+}
+
+/**
+ * Create a worm and worm wheel
+ *
+ * The axial section of the worm is a rack, the same as the rack produced by [[createRackAndPinion]].
+ * The center plane of the wheel is cut by that rack, and twisted to follow the worm threads.
+ */
+export function createWormDrive(props: WormDriveProps): WormDriveResult {
+  const clearancePercent =
+    props.clearanceModPercent ?? DEFAULT_CLEARANCE_PERCENT;
+  const backlashPercent = props.backlashModPercent ?? DEFAULT_BACKLASH_PERCENT;
+  const pressureAngle = props.pressureAngle ?? DEFAUT_PRESSURE_ANGLE;
+  const contactRatio = props.targetContactRatio ?? DEFAULT_CONTACT_RATIO;
+  const profileShift =
+    props.profileShiftPercent ?? DEFAULT_PROFILE_SHIFT_PERCENT;
+  const wheelTeeth = props.wheelTeeth;
+  const starts = props.wormStarts ?? DEFAULT_WORM_STARTS;
+  const maxFillet = props.isMaxFillet ?? DEFAULT_MAX_FILLET;
+  const balancePercent = props.balancePercent ?? DEFAULT_BALANCE_PERCENT;
+  const faceTolPercent = props.faceToleranceModPercent ?? DEFAULT_FACE_TOL;
+  const filletTolPercent =
+    props.filletToleranceModPercent ?? DEFAULT_FILLET_TOL;
+  const tipRadiusPercent =
+    props.cutterTipRadiusModPercent ?? DEFAULT_CUTTER_TIP_RADIUS;
+  const hand = props.isLeftHanded ? -1 : 1;
+  const sizeNumber = props.size;
+  const { wormLength, wheelFaceWidth } = props;
+
+  if (wheelTeeth < 4) {
+    throw new Error("Can't have less than 4 wheel teeth");
+  }
+  if (!(starts >= 1) || starts !== Math.floor(starts)) {
+    throw new Error(`Invalid number of worm starts ${starts}`);
+  }
+  const szLen = props.sizeType === 'diaPitch' ? 1.0 : 1.0 / Math.PI;
+  if (!isFinite(sizeNumber) || sizeNumber <= 0) {
+    throw new Error(`Invalid size number ${sizeNumber}`);
+  }
+  const scale = sizeNumber / szLen;
+  const wormRadius =
+    (props.wormPitchDiameter ??
+      (DEFAULT_WORM_DIAMETER_MODS * scale) / Math.PI) * 0.5;
+  if (!(wormRadius > 0)) {
+    throw new Error(`Invalid worm pitch diameter ${wormRadius * 2}`);
+  }
+  if (!(wormLength > 0)) {
+    throw new Error(`Invalid worm length ${wormLength}`);
+  }
+  if (!(wheelFaceWidth > 0)) {
+    throw new Error(`Invalid wheel face width ${wheelFaceWidth}`);
+  }
+
+  const rackProps: RackProps = {
+    contactRatio,
+    pressureAngle,
+    profileShift,
+    balancePercent,
+    balanceAbsPercent: 0.0,
+    topClrPercent: 0,
+    botClrPercent: 0,
+  };
+  const wormRack = makeRack({
+    ...rackProps,
+    balancePercent: 100 - rackProps.balancePercent,
+    profileShift: -profileShift,
+    botClrPercent: clearancePercent,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+  // The rack path ends at the bottom of a tooth gap
+  const rootPen = new LastPointCapturePen();
+  wormRack(rootPen, true);
+  const wormRootRadius = wormRadius + rootPen.y! * scale;
+
+  const wheelRadius = (wheelTeeth * 0.5 * scale) / Math.PI;
+  const centerDistance = wheelRadius + wormRadius;
+  // The wheel throat is the surface traced by a circle around the worm axis, that
+  // keeps the wheel tips clear of the worm roots
+  const throatRadius =
+    wormRootRadius + (clearancePercent * scale) / (100 * Math.PI);
+  // The wheel teeth are made taller so that they can wrap around the worm after
+  // they're trimmed to the throat
+  const halfFace = Math.min(wheelFaceWidth * 0.5, throatRadius);
+  const tipExtension =
+    throatRadius -
+    Math.sqrt(throatRadius * throatRadius - halfFace * halfFace) +
+    scale * 0.05;
+  const wheelRack = makeRack({
+    ...rackProps,
+    botClrPercent: clearancePercent,
+    botRadiusPercent: tipRadiusPercent,
+    topClrPercent: (tipExtension * 100 * Math.PI) / scale,
+    balanceAbsPercent: backlashPercent * -0.5,
+  });
+
+  const faceT = faceTolPercent / (100 * Math.PI);
+  const wheelTooth = cutGearTooth(
+    wheelTeeth,
+    wheelRack,
+    faceT,
+    filletTolPercent / (100 * Math.PI),
+    maxFillet ? 'external' : 'none'
+  );
+  const wheelPath = wheelTooth.path;
+
+  const lead = starts * scale;
+  const leadAngle = Math.atan2(lead, wormRadius * Math.PI * 2);
+  // rotation of the worm threads per unit of length along the axis
+  const twistPerLength = (hand * Math.PI * 2) / lead;
+
+  // The worm surface is a helicoid, so the cross section is the axial rack wrapped
+  // around the axis, one lead per turn.  The rack is shifted half a pitch to put a gap
+  // at x=0, facing the wheel.
+  const wormSection: Sketch = (pen) => {
+    const wrapPen = new CircleWrapPen(
+      new GearCutterPenAdapter(pen),
+      wormRadius,
+      -twistPerLength,
+      faceT * scale
+    );
+    for (let i = 0; i < starts; ++i) {
+      new XForm()
+        .scale(scale)
+        .translate(i + 0.5, 0)
+        .processPath(wrapPen, wormRack, i == 0);
+    }
+  };
+  const wheelProfile: Sketch = (pen) =>
+    drawGearFromTooth(
+      new GearCutterPenAdapter(pen),
+      true,
+      scale,
+      wheelPath,
+      wheelTeeth
+    );
+
+  const wormTwist = (twistPerLength * wormLength) / DEGREE;
+  // The wheel teeth follow the worm threads, with a helix angle equal to the lead angle
+  const wheelTwist =
+    (hand * wheelFaceWidth * Math.tan(leadAngle)) / wheelRadius / DEGREE;
+
+  return {
+    worm: (shaper) => [
+      shaper.twistExtrude(
+        RIGHTVIEW.rotateTop(-wormTwist * 0.5),
+        wormSection,
+        [-wormLength * 0.5, -centerDistance, 0],
+        [wormLength * 0.5, -centerDistance, 0],
+        wormTwist
+      ),
+    ],
+    wheel: (shaper) => {
+      const wheel = shaper.twistExtrude(
+        TOPVIEW.rotateTop(-90 - wheelTwist * 0.5),
+        wheelProfile,
+        [0, 0, -wheelFaceWidth * 0.5],
+        [0, 0, wheelFaceWidth * 0.5],
+        wheelTwist
+      );
+      const throat = shaper.revolve(
+        FRONTVIEW,
+        (pen) => pen.circle(centerDistance, 0, throatRadius * 2),
+        [0, 0, 0],
+        360
+      );
+      shaper.cut(wheel, throat);
+      return [wheel];
+    },
+    wormSection,
+    wheelProfile,
+    wormPitchDiameter: wormRadius * 2,
+    wheelPitchDiameter: wheelRadius * 2,
+    wheelTipDiameter: (centerDistance - throatRadius) * 2,
+    wheelRootDiameter: wheelTooth.minRadius * scale * 2,
+    wheelArcsPerTooth: wheelTooth.arcsPerTooth,
+    centerDistance,
+    axialPitch: scale,
+    lead,
+    leadAngle: leadAngle / DEGREE,
+    ratio: wheelTeeth / starts,
+  };
+}
@@ -4,3 +4,4 @@ export * from './compoundXForm.js';
 export * from './xformPen.js';
 export * from './recordingPen2D.js';
 export * from './constants.js';
+export * from './polylinePen.js';
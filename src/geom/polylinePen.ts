@@ -0,0 +1,136 @@
+import { centerDistanceFactor } from './geomUtils.js';
+import { Pen2D } from './types.js';
+
+/**
+ * A pen that converts sketches to polylines
+ */
+export class PolylinePen implements Pen2D {
+  /** Each path is a flat array of (x,y) coordinates */
+  readonly paths: number[][] = [];
+  /**
+   * The arcs in each path, as (radius, turn in degrees, midpoint x, midpoint y).
+   * Turns are positive for counter-clockwise arcs.
+   */
+  readonly arcs: [number, number, number, number][][] = [];
+  private current: number[] | null = null;
+  private readonly tolerance: number;
+
+  /**
+   * @param tolerance maximum distance between the polylines and the curves
+   *      they approximate
+   */
+  constructor(tolerance: number) {
+    this.tolerance = tolerance;
+  }
+
+  /**
+   * Get all the line segments that touch points that satisfy a filter
+   *
+   * @returns a flat array of (x0, y0, x1, y1) coordinates
+   */
+  segments(filter: (x: number, y: number) => boolean): number[] {
+    const ret: number[] = [];
+    for (const path of this.paths) {
+      for (let i = 2; i < path.length; i += 2) {
+        const [x0, y0, x1, y1] = path.slice(i - 2, i + 2);
+        if (filter(x0, y0) || filter(x1, y1)) {
+          ret.push(x0, y0, x1, y1);
+        }
+      }
+    }
+    return ret;
+  }
+
+  /**
+   * Total signed area of all the paths, which is positive for
+   * counter-clockwise paths
+   */
+  area(): number {
+    let total = 0;
+    for (const path of this.paths) {
+      const n = path.length;
+      for (let i = 0; i < n; i += 2) {
+        const j = (i + 2) % n;
+        total += path[i] * path[j + 1] - path[j] * path[i + 1];
+      }
+    }
+    return total * 0.5;
+  }
+
+  move(x: number, y: number): void {
+    this.current = [x, y];
+    this.paths.push(this.current);
+    this.arcs.push([]);
+  }
+
+  line(x: number, y: number): void {
+    this.lastPath('line').push(x, y);
+  }
+
+  arc(x: number, y: number, turnDegrees: number): void {
+    const path = this.lastPath('arc');
+    const x0 = path[path.length - 2];
+    const y0 = path[path.length - 1];
+    if (Math.abs(turnDegrees) < 0.01) {
+      path.push(x, y);
+      return;
+    }
+    const dx = x - x0;
+    const dy = y - y0;
+    const cdfac = centerDistanceFactor(turnDegrees);
+    const cx = (x0 + x) * 0.5 - dy * cdfac;
+    const cy = (y0 + y) * 0.5 + dx * cdfac;
+    const r = Math.sqrt((x0 - cx) * (x0 - cx) + (y0 - cy) * (y0 - cy));
+    const turn = (turnDegrees * Math.PI) / 180;
+    const mc = Math.cos(turn * 0.5);
+    const ms = Math.sin(turn * 0.5);
+    this.arcs[this.arcs.length - 1].push([
+      r,
+      turnDegrees,
+      cx + (x0 - cx) * mc - (y0 - cy) * ms,
+      cy + (x0 - cx) * ms + (y0 - cy) * mc,
+    ]);
+    const maxStep =
+      this.tolerance < r ? 2 * Math.acos(1 - this.tolerance / r) : Math.PI;
+    const n = Math.ceil(Math.abs(turn) / maxStep);
+    for (let i = 1; i < n; ++i) {
+      const c = Math.cos((turn * i) / n);
+      const s = Math.sin((turn * i) / n);
+      path.push(
+        cx + (x0 - cx) * c - (y0 - cy) * s,
+        cy + (x0 - cx) * s + (y0 - cy) * c
+      );
+    }
+    path.push(x, y);
+  }
+
+  conic(x1: number, y1: number, x2: number, y2: number, w: number): void {
+    const path = this.lastPath('conic');
+    const x0 = path[path.length - 2];
+    const y0 = path[path.length - 1];
+    const n = 32;
+    for (let i = 1; i < n; ++i) {
+      const t = i / n;
+      const a = (1 - t) * (1 - t);
+      const b = 2 * w * t * (1 - t);
+      const c = t * t;
+      const d = a + b + c;
+      path.push((x0 * a + x1 * b + x2 * c) / d, (y0 * a + y1 * b + y2 * c) / d);
+    }
+    path.push(x2, y2);
+  }
+
+  circle(x: number, y: number, d: number): void {
+    const r = d * 0.5;
+    this.move(x + r, y);
+    this.arc(x - r, y, 180);
+    this.arc(x + r, y, 180);
+  }
+
+  private lastPath(segType: string): number[] {
+    if (!this.current) {
+      throw new Error(`${segType} before move in PolylinePen`);
+    }
+    return this.current;
+  }
+}
@@ -128,7 +128,11 @@ export type Vec3D = [number, number, number];
 export type HVec3D = [number, number, number, number];
 
 export interface Pen3D {
-  move(x: number, y: number, z: number): void;
+  /**
+   * Start a new path at the given point.  The tag is carried from the sketch path
+   * that the profile path was drawn from.
+   */
+  move(x: number, y: number, z: number, tag?: string | null | undefined): void;
   line(x: number, y: number, z: number): void;
   conic(
     x1: number,
@@ -145,6 +149,131 @@ export type Profile = (pen: Pen3D) => void;
 
 export type BodyID = string;
 
+/**
+ * Selects edges of a body, for operations like [[Shaper3D.fillet]].  An edge is
+ * selected only if all of it matches.
+ */
+export type EdgeSelector =
+  | { readonly type: 'all' }
+  | {
+      /**
+       * Edges that lie in a plane.  The plane is placed like a sketch: it's the z=0
+       * plane of `plane`, with its origin moved to `position`
+       */
+      readonly type: 'plane';
+      readonly plane: XForm3D;
+      /** Default [0, 0, 0] */
+      readonly position?: Point3D | undefined;
+    }
+  | {
+      /** Straight edges that are parallel to a direction */
+      readonly type: 'parallel';
+      readonly direction: Vec3D;
+    }
+  | {
+      /**
+       * Edges inside a box, from `min` to `max`.  If `xform` is given, then the box
+       * is transformed by it.
+       */
+      readonly type: 'box';
+      readonly min: Point3D;
+      readonly max: Point3D;
+      readonly xform?: XForm3D | undefined;
+    }
+  | {
+      /**
+       * Edges of the faces that were generated from sketch paths started with the
+       * given tag, e.g., the side of a bore drawn with `pen.circle(0, 0, d, 'bore')`.
+       * Tagged faces are tracked through joins, cuts, fillets, and chamfers.
+       */
+      readonly type: 'tag';
+      readonly tag: string;
+    }
+  | {
+      /** Edges selected by all of the selectors ('and'), or any of them ('or') */
+      readonly type: 'and' | 'or';
+      readonly selectors: readonly EdgeSelector[];
+    };
+
+/**
+ * Selects faces of a body, for operations like [[Shaper3D.shell]].  A face is
+ * selected only if all of it matches.
+ */
+export type FaceSelector =
+  | {
+      /**
+       * Faces that lie in a plane.  The plane is placed like a sketch: it's the z=0
+       * plane of `plane`, with its origin moved to `position`
+       */
+      readonly type: 'plane';
+      readonly plane: XForm3D;
+      /** Default [0, 0, 0] */
+      readonly position?: Point3D | undefined;
+    }
+  | {
+      /**
+       * Faces inside a box, from `min` to `max`.  If `xform` is given, then the box
+       * is transformed by it.
+       */
+      readonly type: 'box';
+      readonly min: Point3D;
+      readonly max: Point3D;
+      readonly xform?: XForm3D | undefined;
+    }
+  | {
+      /** Faces that were generated from sketch paths started with the given tag */
+      readonly type: 'tag';
+      readonly tag: string;
+    }
+  | {
+      /** Faces selected by all of the selectors ('and'), or any of them ('or') */
+      readonly type: 'and' | 'or';
+      readonly selectors: readonly FaceSelector[];
+    };
+
+/**
+ * A cross-section for [[Shaper3D.loft]]
+ */
+export interface LoftSection {
+  /**
+   * A transform that maps (x,y,0) sketch coordinates into the position and
+   * orientation of the section
+   */
+  readonly plane: XForm3D;
+  readonly sketch: Sketch;
+}
+
+export interface LoftOptions {
+  /**
+   * If true, consecutive sections are connected by ruled surfaces.  Otherwise, the
+   * sides are smooth surfaces through all the sections.  Default false
+   */
+  readonly ruled?: boolean | undefined;
+}
+
+export interface SweepOptions {
+  /**
+   * How the cross-section turns as it follows the path.  In 'frenet' mode, it turns
+   * with the curvature of the path.  In 'fixedBinormal' mode, it keeps the same
+   * orientation relative to `binormal`, so, e.g., a helical sweep around the binormal
+   * doesn't tilt.  Default 'frenet'
+   */
+  readonly mode?: 'frenet' | 'fixedBinormal' | undefined;
+  /** Fixed binormal direction for 'fixedBinormal' mode.  Default [0, 0, 1] */
+  readonly binormal?: Vec3D | undefined;
+}
+
+/**
+ * The bodies made by [[Shaper3D.split]].  A side is undefined if no part of the
+ * body is on it.
+ */
+export interface SplitResult {
+  /** The part on the +z side of the plane, or inside the tool body */
+  readonly inside: BodyID | undefined;
+  /** The part on the -z side of the plane, or outside the tool body */
+  readonly outside: BodyID | undefined;
+}
+
 export interface Shaper3D {
   /**
    * Extrude a body from a sketch.  The first outline in the sketch
@@ -171,6 +300,72 @@ export interface Shaper3D {
     end: Point3D
   ): BodyID[];
 
+  /**
+   * Extrude a body from a sketch, twisting it around the extrusion axis as it goes.  The first
+   * outline in the sketch is the main part, and the other outlines are holes that are cut out of it.
+   *
+   * The sketch rotates at a constant rate around the line from `start` to `end`, so a point in
+   * the sketch traces a helix.
+   *
+   * @param plane A transform that maps (x,y,0) sketch coordinates into the correct orientation
+   * @param sketch The sketch
+   * @param start The extrusion start point of the transformed sketch origin
+   * @param end The extrusion end point of the transformed sketch origin
+   * @param twistDegrees total rotation of the sketch between `start` and `end`.  Positive
+   *      rotations are counter-clockwise when looking from `end` toward `start`
+   */
+  twistExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    twistDegrees: number
+  ): BodyID;
+
+  /**
+   * Create a body by sweeping a cross-section along a helix.  The first outline in the
+   * sketch is the main part, and the other outlines are holes that are cut out of it.
+   *
+   * The sketch moves from `start` to `end` while turning around the line between them,
+   * so every point in the sketch traces a helix with the given pitch.  To make a coil
+   * or a thread, place the sketch in a plane through the axis.
+   *
+   * @param plane A transform that maps (x,y,0) sketch coordinates into the correct orientation
+   * @param sketch The sketch
+   * @param start The start point of the transformed sketch origin, on the helix axis
+   * @param end The end point of the transformed sketch origin, on the helix axis
+   * @param pitch distance along the axis for each turn.  Positive pitches make
+   *      right-handed helices, and negative pitches make left-handed helices.
+   */
+  helixSweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    pitch: number
+  ): BodyID;
+
+  /**
+   * Extrude a body from a sketch, scaling it uniformly toward the extrusion axis as it goes,
+   * so that the sides of the body are ruled surfaces.  The first outline in the sketch
+   * is the main part, and the other outlines are holes that are cut out of it.
+   *
+   * With an `endScale` of 0, the body would be a cone or pyramid with its apex at `end`.
+   *
+   * @param plane A transform that maps (x,y,0) sketch coordinates into the correct orientation
+   * @param sketch The sketch
+   * @param start The extrusion start point of the transformed sketch origin
+   * @param end The extrusion end point of the transformed sketch origin
+   * @param endScale size of the sketch at `end` relative to its size at `start`.  Must be positive
+   */
+  taperExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    endScale: number
+  ): BodyID;
+
   /**
    * Create a shape by revolving a cross section.  The first outline in the sketch is the main part,
    * and the other outlines are holes that are cut out of it.
@@ -191,9 +386,87 @@ export interface Shaper3D {
     angleDegrees: number
   ): BodyID;
 
+  /**
+   * Create a body through a sequence of cross-sections.  The first outline in each
+   * sketch is the main part, and the other outlines are holes that are cut out of
+   * it.  All the sketches must have the same number of outlines, and corresponding
+   * outlines are connected.
+   *
+   * Outlines connect best when they have the same number of segments, e.g., a circle
+   * drawn with `circle` connects to a rectangle edge-to-edge.
+   *
+   * @param sections At least 2 cross-sections, in order
+   */
+  loft(sections: readonly LoftSection[], options?: LoftOptions): BodyID;
+
+  /**
+   * Create a body by sweeping a cross-section along a path.  The first outline in the
+   * sketch is the main part, and the other outlines are holes that are cut out of it.
+   *
+   * @param plane A transform that maps (x,y,0) sketch coordinates into the position
+   *      and orientation of the cross-section.  This is usually at the start of the
+   *      path, and perpendicular to it.
+   * @param sketch The cross-section
+   * @param path A single connected path, drawn with lines and conics
+   */
+  sweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    path: Profile,
+    options?: SweepOptions
+  ): BodyID;
+
   instance(xform: XForm3D, body: TopoDS_Shape): BodyID | undefined;
   join(targetId: string, toolId: string | string[]): void;
   cut(targetId: string, toolId: string | string[]): void;
+
+  /**
+   * Replace a body with the part of it that is inside the tool bodies
+   *
+   * @param targetId The body to modify
+   * @param toolId The tool body or bodies.  If there are many, the result is inside
+   *      all of them.
+   */
+  intersect(targetId: BodyID, toolId: BodyID | BodyID[]): void;
+
+  /**
+   * Split a body into new bodies on each side of a plane, or of the surface of a tool
+   * body.  The original body is not changed.  Use this, e.g., to print a part that is
+   * too large for the printer in separate pieces.
+   *
+   * @param bodyId The body to split
+   * @param tool A transform whose z=0 plane is the split plane, or the ID of a tool
+   *      body
+   */
+  split(bodyId: BodyID, tool: XForm3D | BodyID): SplitResult;
+
+  /**
+   * Round the selected edges of a body
+   *
+   * @param bodyId The body to modify
+   * @param edges The edges to round
+   * @param radius The fillet radius
+   */
+  fillet(bodyId: BodyID, edges: EdgeSelector, radius: number): void;
+
+  /**
+   * Bevel the selected edges of a body, with 45 degree chamfers on square edges
+   *
+   * @param bodyId The body to modify
+   * @param edges The edges to bevel
+   * @param distance The distance that the chamfer cuts back along each face
+   */
+  chamfer(bodyId: BodyID, edges: EdgeSelector, distance: number): void;
+
+  /**
+   * Hollow out a body, leaving walls of uniform thickness inside its surface.  The
+   * selected faces are removed, to open the hollow to the outside.
+   *
+   * @param bodyId The body to modify
+   * @param thickness The wall thickness
+   * @param openFaces The faces to remove
+   */
+  shell(bodyId: BodyID, thickness: number, openFaces: FaceSelector): void;
 }
 
 export type Part = (shaper: Shaper3D) => BodyID[];
@@ -15,9 +15,9 @@ export class XFormPen3D implements Pen3D {
       this.pen = pen;
     }
   }
-  move(x: number, y: number, z: number): void {
+  move(x: number, y: number, z: number, tag?: string | null | undefined): void {
     const [newX, newY, newZ] = this.xform.mapPoint(x, y, z);
-    this.pen.move(newX, newY, newZ);
+    this.pen.move(newX, newY, newZ, tag);
   }
   line(x: number, y: number, z: number): void {
     const [newX, newY, newZ] = this.xform.mapPoint(x, y, z);
@@ -146,7 +146,7 @@ export class SketchToProfilePen implements Pen2D {
     this.target = target;
   }
   move(x: number, y: number, tag?: string | null | undefined): void {
-    this.target.move(x, y, 0);
+    this.target.move(x, y, 0, tag);
     this.tx = x;
     this.ty = y;
   }
@@ -1,5 +1,18 @@
 import type { TopoDS_Shape } from 'opencascade.js/dist/opencascade.full.js';
-import { BodyID, Point3D, Shaper3D, Sketch, XForm3D } from './types.js';
+import {
+  BodyID,
+  EdgeSelector,
+  FaceSelector,
+  LoftOptions,
+  LoftSection,
+  Point3D,
+  Profile,
+  Shaper3D,
+  Sketch,
+  SplitResult,
+  SweepOptions,
+  XForm3D,
+} from './types.js';
 
 export class XFormShaper implements Shaper3D {
   private xform: XForm3D;
@@ -35,6 +48,57 @@ export class XFormShaper implements Shaper3D {
       this.xform.mapPoint(end[0], end[1], end[2])
     );
   }
+  twistExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    twistDegrees: number
+  ): BodyID {
+    return this.target.twistExtrude(
+      this.xform.stationary().mapXForm(plane),
+      sketch,
+      this.xform.mapPoint(start[0], start[1], start[2]),
+      this.xform.mapPoint(end[0], end[1], end[2]),
+      this.isMirror() ? -twistDegrees : twistDegrees
+    );
+  }
+  helixSweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    pitch: number
+  ): BodyID {
+    const newStart = this.xform.mapPoint(start[0], start[1], start[2]);
+    const newEnd = this.xform.mapPoint(end[0], end[1], end[2]);
+    // keep the same number of turns if the transform scales the axis
+    const len = distance(start, end);
+    const newLen = distance(newStart, newEnd);
+    const newPitch = len > 0 ? (pitch * newLen) / len : pitch;
+    return this.target.helixSweep(
+      this.xform.stationary().mapXForm(plane),
+      sketch,
+      newStart,
+      newEnd,
+      this.isMirror() ? -newPitch : newPitch
+    );
+  }
+  taperExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    endScale: number
+  ): BodyID {
+    return this.target.taperExtrude(
+      this.xform.stationary().mapXForm(plane),
+      sketch,
+      this.xform.mapPoint(start[0], start[1], start[2]),
+      this.xform.mapPoint(end[0], end[1], end[2]),
+      endScale
+    );
+  }
   revolve(
     plane: XForm3D,
     sketch: Sketch,
@@ -48,6 +112,35 @@ export class XFormShaper implements Shaper3D {
       angleDegrees
     );
   }
+  loft(sections: readonly LoftSection[], options?: LoftOptions): BodyID {
+    return this.target.loft(
+      sections.map((section) => ({
+        ...section,
+        plane: this.xform.mapXForm(section.plane),
+      })),
+      options
+    );
+  }
+  sweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    path: Profile,
+    options?: SweepOptions
+  ): BodyID {
+    return this.target.sweep(
+      this.xform.mapXForm(plane),
+      sketch,
+      this.xform.mapProfile(path),
+      options?.mode === 'fixedBinormal'
+        ? {
+            ...options,
+            binormal: this.xform
+              .stationary()
+              .mapPoint(...(options.binormal ?? [0, 0, 1])),
+          }
+        : options
+    );
+  }
 
   instance(xform: XForm3D, body: TopoDS_Shape): BodyID | undefined {
     return this.target.instance(this.xform.mapXForm(xform), body);
@@ -58,4 +151,102 @@ export class XFormShaper implements Shaper3D {
   cut(targetId: string, toolId: string | string[]): void {
     this.target.cut(targetId, toolId);
   }
+  intersect(targetId: BodyID, toolId: BodyID | BodyID[]): void {
+    this.target.intersect(targetId, toolId);
+  }
+  split(bodyId: BodyID, tool: XForm3D | BodyID): SplitResult {
+    return this.target.split(
+      bodyId,
+      typeof tool === 'string' ? tool : this.xform.mapXForm(tool)
+    );
+  }
+  fillet(bodyId: BodyID, edges: EdgeSelector, radius: number): void {
+    this.target.fillet(bodyId, this.mapEdgeSelector(edges), radius);
+  }
+  chamfer(bodyId: BodyID, edges: EdgeSelector, distance: number): void {
+    this.target.chamfer(bodyId, this.mapEdgeSelector(edges), distance);
+  }
+  shell(bodyId: BodyID, thickness: number, openFaces: FaceSelector): void {
+    this.target.shell(bodyId, thickness, this.mapFaceSelector(openFaces));
+  }
+
+  private mapEdgeSelector(sel: EdgeSelector): EdgeSelector {
+    switch (sel.type) {
+      case 'all':
+      case 'tag':
+        return sel;
+      case 'plane': {
+        const [x, y, z] = sel.position ?? [0, 0, 0];
+        return {
+          type: 'plane',
+          plane: this.xform.stationary().mapXForm(sel.plane),
+          position: this.xform.mapPoint(x, y, z),
+        };
+      }
+      case 'parallel':
+        return {
+          type: 'parallel',
+          direction: this.xform.stationary().mapPoint(...sel.direction),
+        };
+      case 'box':
+        return {
+          ...sel,
+          xform: sel.xform ? this.xform.mapXForm(sel.xform) : this.xform,
+        };
+      case 'and':
+      case 'or':
+        return {
+          type: sel.type,
+          selectors: sel.selectors.map((s) => this.mapEdgeSelector(s)),
+        };
+    }
+  }
+
+  private mapFaceSelector(sel: FaceSelector): FaceSelector {
+    switch (sel.type) {
+      case 'tag':
+        return sel;
+      case 'plane': {
+        const [x, y, z] = sel.position ?? [0, 0, 0];
+        return {
+          type: 'plane',
+          plane: this.xform.stationary().mapXForm(sel.plane),
+          position: this.xform.mapPoint(x, y, z),
+        };
+      }
+      case 'box':
+        return {
+          ...sel,
+          xform: sel.xform ? this.xform.mapXForm(sel.xform) : this.xform,
+        };
+      case 'and':
+      case 'or':
+        return {
+          type: sel.type,
+          selectors: sel.selectors.map((s) => this.mapFaceSelector(s)),
+        };
+    }
+  }
+
+  /**
+   * Determine whether our transform flips handedness, which reverses the sense of rotations
+   */
+  private isMirror(): boolean {
+    const xfs = this.xform.stationary();
+    const [xx, xy, xz] = xfs.mapPoint(1, 0, 0);
+    const [yx, yy, yz] = xfs.mapPoint(0, 1, 0);
+    const [zx, zy, zz] = xfs.mapPoint(0, 0, 1);
+    const det =
+      xx * (yy * zz - yz * zy) -
+      yx * (xy * zz - xz * zy) +
+      zx * (xy * yz - xz * yy);
+    return det < 0;
+  }
+}
+
+function distance(a: Point3D, b: Point3D): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const dz = b[2] - a[2];
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
 }
@@ -1,4 +1,8 @@
 export * from './gearcutter/index.js';
+export * from './sprockets/index.js';
+export * from './cams/index.js';
+export * from './mechanisms/index.js';
+export * from './threads/index.js';
 export * from './geom/index.js';
 export * from './oc/index.js';
 export * from './display/index.js';
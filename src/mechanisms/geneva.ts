@@ -0,0 +1,320 @@
+import {
+  DEGREE,
+  ID2D,
+  Matrix2D,
+  Point2D,
+  PolylinePen,
+  Sketch,
+} from '../geom/index.js';
+import {
+  circleIntersections,
+  drawRotatedCopies,
+  PathBuilder,
+} from '../sprockets/geometry.js';
+
+// Outlines are sampled with this tolerance, in center distances, to fit and check
+// the relief in the locking disc
+const SAMPLE_TOLERANCE = 1e-5;
+// Number of drive positions to sample while the pin is in a slot, to find where the
+// wheel needs the most relief
+const RELIEF_STEPS = 1000;
+// Number of drive positions to sample in each turn, to check for overlaps
+const OVERLAP_STEPS = 1440;
+// The wheel and the disc overlap if they penetrate by more than this, in center
+// distances
+const OVERLAP_TOLERANCE = 1e-6;
+
+export interface GenevaProps {
+  /** Number of slots in the Geneva wheel.  The wheel turns 1/slots of a turn per drive turn */
+  readonly slots: number;
+  /** Distance between the wheel and drive axes */
+  readonly centerDistance: number;
+  readonly pinDiameter: number;
+  /**
+   * Diameter of the locking disc on the drive, which holds the wheel still
+   * between steps.  Default is the pin circle diameter - 2 * pin diameter
+   */
+  readonly lockingDiameter?: number | undefined;
+  /**
+   * Gap to leave between the moving parts, to compensate for printer tolerances.
+   * Default 0
+   */
+  readonly clearance?: number | undefined;
+  /** Diameter of the hole in the center of the wheel.  Default is no hole */
+  readonly wheelBoreDiameter?: number | undefined;
+  /** Diameter of the hole in the center of the locking disc.  Default is no hole */
+  readonly driveBoreDiameter?: number | undefined;
+}
+
+export interface GenevaResult {
+  /**
+   * The Geneva wheel, centered on the origin, with a slot on the +x axis.  If there
+   * is a bore, it is the second outline.
+   */
+  readonly wheel: Sketch;
+  /**
+   * The locking disc of the drive, centered on the origin, with its relief cut
+   * toward the pin on the +x axis.  If there is a bore, it is the second outline.
+   */
+  readonly lockingDisc: Sketch;
+  /**
+   * The drive pin, at (`pinCircleDiameter` / 2, 0).  It needs a crank to carry it,
+   * below the locking disc, with a diameter of at least
+   * `pinCircleDiameter` + `pinDiameter`.
+   */
+  readonly pin: Sketch;
+  /**
+   * Get the placement of the drive sketches, at (`centerDistance`, 0), when the
+   * drive is rotated counter-clockwise by `driveDegrees`.  At 0, the pin is in the
+   * middle of the slot on the +x axis.
+   */
+  drivePlacement(driveDegrees: number): Matrix2D;
+  /**
+   * Get the placement of the wheel when the drive is rotated counter-clockwise by
+   * `driveDegrees`.  The wheel turns clockwise.
+   */
+  wheelPlacement(driveDegrees: number): Matrix2D;
+  readonly centerDistance: number;
+  /** Diameter of the circle through the center of the drive pin */
+  readonly pinCircleDiameter: number;
+  readonly wheelDiameter: number;
+  readonly lockingDiameter: number;
+  /** Degrees of drive rotation in each turn that the wheel moves */
+  readonly driveAngle: number;
+}
+
+/**
+ * Create an external Geneva mechanism, with the wheel at the origin and the drive
+ * at (`centerDistance`, 0).
+ *
+ * The pin enters and leaves the slots tangentially, so the wheel starts and stops
+ * without a jolt.  Between steps, the locking disc sits in a concave arc on the
+ * wheel to hold it in place.
+ */
+export function createGeneva(props: GenevaProps): GenevaResult {
+  const n = props.slots;
+  const C = props.centerDistance;
+  const pinR = props.pinDiameter / 2;
+  const clearance = props.clearance ?? 0;
+  const wheelBore = props.wheelBoreDiameter ?? 0;
+  const driveBore = props.driveBoreDiameter ?? 0;
+  if (!(Number.isInteger(n) && n >= 3)) {
+    throw new Error(`Invalid number of Geneva slots ${n}`);
+  }
+  if (!(C > 0)) {
+    throw new Error(`Invalid center distance ${C}`);
+  }
+  if (!(clearance >= 0)) {
+    throw new Error(`Invalid clearance ${clearance}`);
+  }
+  // crank radius and the distance from the wheel center to the slot mouths
+  const crankR = C * Math.sin(Math.PI / n);
+  const mouthR = C * Math.cos(Math.PI / n);
+  if (!(pinR > 0 && pinR < crankR / 2)) {
+    throw new Error(
+      'Pin diameter must be positive and less than the pin circle radius'
+    );
+  }
+  const lockR = (props.lockingDiameter ?? (crankR - pinR * 2) * 2) / 2;
+  if (!(lockR > 0 && lockR < crankR)) {
+    throw new Error('The locking disc must fit inside the pin circle');
+  }
+
+  // The wheel, with a slot on the +x axis.  The slot bottom clears the pin at its
+  // deepest point.
+  const halfWidth = pinR + clearance;
+  const wheelR = Math.sqrt(mouthR * mouthR + halfWidth * halfWidth);
+  const slotBottom = C - crankR;
+  if (!(slotBottom - halfWidth > wheelBore / 2)) {
+    throw new Error('The wheel bore is too large for the slots');
+  }
+  const mouth: Point2D = [mouthR, halfWidth];
+  // concave locking arc between this slot and the next
+  const lockCenter = ID2D.rotate(180 / n).mapPoint(C, 0);
+  const lockArcR = lockR + clearance;
+  const lockStart = circleIntersections(
+    [0, 0],
+    wheelR,
+    lockCenter,
+    lockArcR
+  )?.[0];
+  if (
+    !lockStart ||
+    Math.atan2(lockStart[1], lockStart[0]) <= Math.atan2(mouth[1], mouth[0])
+  ) {
+    throw new Error('The locking disc is too large for the wheel');
+  }
+  const lockEnd = ID2D.rotate(360 / n).mapPoint(lockStart[0], -lockStart[1]);
+  const wheelStart: Point2D = [mouthR, -halfWidth];
+  const wheelPath = new PathBuilder(wheelStart);
+  wheelPath.lineTo([slotBottom, -halfWidth]);
+  wheelPath.arcTo([slotBottom, 0], [slotBottom, halfWidth], false);
+  wheelPath.lineTo(mouth);
+  wheelPath.arcTo([0, 0], lockStart, true);
+  wheelPath.arcTo(lockCenter, lockEnd, false);
+  wheelPath.arcTo([0, 0], ID2D.rotate(360 / n).mapPoint(...wheelStart), true);
+  const wheelSegments = wheelPath.segments;
+
+  // Half of the drive angle during which the pin is in a slot
+  const halfDrive = 90 - 180 / n;
+  const wheelDegrees = (driveDegrees: number) => {
+    const turns = Math.round(driveDegrees / 360);
+    const e = driveDegrees - turns * 360;
+    let local: number;
+    if (e > halfDrive) {
+      local = -180 / n;
+    } else if (e < -halfDrive) {
+      local = 180 / n;
+    } else {
+      // the pin, relative to the wheel
+      const a = (e * Math.PI) / 180;
+      local =
+        (Math.atan2(-crankR * Math.sin(a), C - crankR * Math.cos(a)) * 180) /
+        Math.PI;
+    }
+    return local - (turns * 360) / n;
+  };
+
+  // Maps wheel coordinates to locking disc coordinates, in which the drive is at the
+  // origin and the wheel is at (C, 0) when the drive angle is 0
+  const wheelToDisc = (driveDegrees: number) =>
+    ID2D.rotate(-180 - driveDegrees)
+      .translate(-C, 0)
+      .rotate(wheelDegrees(driveDegrees));
+  const wheelSampler = new PolylinePen(C * SAMPLE_TOLERANCE);
+  drawRotatedCopies(wheelSampler, wheelStart, wheelSegments, n);
+  const wheelPoints = wheelSampler.paths[0];
+
+  // The locking disc has a relief, centered where the wheel axis is at drive angle 0,
+  // so the wheel can turn while the pin is in a slot.  The wheel doesn't turn around
+  // the center of the relief, so it must be large enough to clear the corners of the
+  // slot mouth over the whole engagement.
+  // Wheel points only need relief if they come closer to the disc than the
+  // clearance.  The locking arcs touch that limit at the ends of the engagement.
+  const reliefReach = lockR + clearance - C * OVERLAP_TOLERANCE;
+  const reliefFor = (driveDegrees: number) => {
+    const xf = wheelToDisc(driveDegrees);
+    let ret = 0;
+    for (let i = 0; i < wheelPoints.length; i += 2) {
+      const [x, y] = xf.mapPoint(wheelPoints[i], wheelPoints[i + 1]);
+      if (x * x + y * y < reliefReach * reliefReach) {
+        ret = Math.max(ret, Math.sqrt((x - C) * (x - C) + y * y));
+      }
+    }
+    return ret;
+  };
+  let worstDrive = 0;
+  let worstRelief = reliefFor(0);
+  for (let i = 0; i <= RELIEF_STEPS; ++i) {
+    const e = halfDrive * ((i * 2) / RELIEF_STEPS - 1);
+    const r = reliefFor(e);
+    if (r > worstRelief) {
+      worstDrive = e;
+      worstRelief = r;
+    }
+  }
+  // refine the worst position
+  for (let step = halfDrive / RELIEF_STEPS; step > 1e-9; step *= 0.5) {
+    for (const e of [worstDrive - step, worstDrive + step]) {
+      const r = Math.abs(e) <= halfDrive ? reliefFor(e) : 0;
+      if (r > worstRelief) {
+        worstDrive = e;
+        worstRelief = r;
+      }
+    }
+  }
+  const reliefR = Math.max(wheelR, worstRelief) + clearance;
+  const reliefStart = circleIntersections([0, 0], lockR, [C, 0], reliefR)?.[1];
+  if (!reliefStart) {
+    throw new Error('The locking disc is too small for the wheel');
+  }
+  if (!(C - reliefR > driveBore / 2)) {
+    throw new Error('The drive bore is too large for the locking disc');
+  }
+  const reliefEnd: Point2D = [reliefStart[0], -reliefStart[1]];
+  const discPath = new PathBuilder(reliefStart);
+  discPath.arcTo([0, 0], reliefEnd, true);
+  discPath.arcTo([C, 0], reliefStart, false);
+  const discSegments = discPath.segments;
+
+  // Check that the wheel and the disc don't overlap anywhere in a turn of the drive.
+  // Points of each outline are checked against the other shape.
+  const discSampler = new PolylinePen(C * SAMPLE_TOLERANCE);
+  drawRotatedCopies(discSampler, reliefStart, discSegments, 1);
+  const discPoints = discSampler.paths[0];
+  const discDepth = (x: number, y: number) =>
+    Math.min(
+      lockR - Math.sqrt(x * x + y * y),
+      Math.sqrt((x - C) * (x - C) + y * y) - reliefR
+    );
+  const wheelDepth = (x: number, y: number) => {
+    // The wheel is symmetric, so move the point next to the slot on the +x axis,
+    // with y >= 0
+    const sector = 360 / n;
+    const a = Math.atan2(y, x) / DEGREE;
+    const [px, my] = ID2D.rotate(-Math.round(a / sector) * sector).mapPoint(
+      x,
+      y
+    );
+    const py = Math.abs(my);
+    const slot =
+      px >= slotBottom
+        ? py - halfWidth
+        : Math.sqrt((px - slotBottom) * (px - slotBottom) + py * py) -
+          halfWidth;
+    const dx = px - lockCenter[0];
+    const dy = py - lockCenter[1];
+    return Math.min(
+      wheelR - Math.sqrt(px * px + py * py),
+      slot,
+      Math.sqrt(dx * dx + dy * dy) - lockArcR
+    );
+  };
+  for (let i = 0; i < OVERLAP_STEPS; ++i) {
+    const driveDegrees = (i * 360) / OVERLAP_STEPS - 180;
+    const wheelXForm = wheelToDisc(driveDegrees);
+    let depth = -Infinity;
+    for (let j = 0; j < wheelPoints.length; j += 2) {
+      const p = wheelXForm.mapPoint(wheelPoints[j], wheelPoints[j + 1]);
+      depth = Math.max(depth, discDepth(...p));
+    }
+    const discXForm = ID2D.rotate(-wheelDegrees(driveDegrees))
+      .translate(C, 0)
+      .rotate(180 + driveDegrees);
+    for (let j = 0; j < discPoints.length; j += 2) {
+      const p = discXForm.mapPoint(discPoints[j], discPoints[j + 1]);
+      depth = Math.max(depth, wheelDepth(...p));
+    }
+    if (depth > C * OVERLAP_TOLERANCE) {
+      throw new Error(
+        `The locking disc hits the wheel at drive angle ${driveDegrees}`
+      );
+    }
+  }
+
+  return {
+    wheel: (pen) => {
+      drawRotatedCopies(pen, wheelStart, wheelSegments, n);
+      if (wheelBore > 0) {
+        pen.circle(0, 0, wheelBore);
+      }
+    },
+    lockingDisc: (pen) => {
+      drawRotatedCopies(pen, reliefStart, discSegments, 1);
+      if (driveBore > 0) {
+        pen.circle(0, 0, driveBore);
+      }
+    },
+    pin: (pen) => {
+      pen.circle(crankR, 0, pinR * 2);
+    },
+    drivePlacement: (driveDegrees) =>
+      ID2D.translate(C, 0).rotate(180 + driveDegrees),
+    wheelPlacement: (driveDegrees) => ID2D.rotate(wheelDegrees(driveDegrees)),
+    centerDistance: C,
+    pinCircleDiameter: crankR * 2,
+    wheelDiameter: wheelR * 2,
+    lockingDiameter: lockR * 2,
+    driveAngle: halfDrive * 2,
+  };
+}
@@ -0,0 +1,2 @@
+export * from './geneva.js';
+export * from './ratchet.js';
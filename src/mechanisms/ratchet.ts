@@ -0,0 +1,159 @@
+import { ID2D, Matrix2D, Point2D, Sketch } from '../geom/index.js';
+import { drawRotatedCopies, PathBuilder } from '../sprockets/geometry.js';
+
+export interface RatchetProps {
+  readonly teeth: number;
+  /** Diameter of the circle through the tooth tips */
+  readonly outerDiameter: number;
+  /** Radial depth of the teeth.  Default is half the distance between tooth tips */
+  readonly toothDepth?: number | undefined;
+  /**
+   * Distance from the pawl's pivot to the engaged tooth tip, along the tangent to
+   * the wheel.  It must be at most the distance between tooth tips, so that the pawl
+   * clears the tooth behind the one it holds.  Default is the distance between
+   * tooth tips.
+   */
+  readonly pawlLength?: number | undefined;
+  /** Width of the pawl arm.  Default is the tooth depth */
+  readonly pawlWidth?: number | undefined;
+  /**
+   * Gap to leave between the pawl and the teeth, to compensate for printer
+   * tolerances.  Default 0
+   */
+  readonly clearance?: number | undefined;
+  /** Diameter of the hole in the center of the wheel.  Default is no hole */
+  readonly boreDiameter?: number | undefined;
+  /** Diameter of the hole for the pawl's pivot.  Default is no hole */
+  readonly pawlPivotDiameter?: number | undefined;
+}
+
+export interface RatchetResult {
+  /**
+   * The ratchet wheel, centered on the origin, with the locking face of a tooth on
+   * the +x axis.  If there is a bore, it is the second outline.
+   */
+  readonly wheel: Sketch;
+  /** The pawl, with its pivot at the origin */
+  readonly pawl: Sketch;
+  /** Placement of the pawl, engaged with the tooth on the +x axis */
+  readonly pawlPlacement: Matrix2D;
+  /** Distance from the wheel center to the pawl pivot */
+  readonly centerDistance: number;
+  /** Diameter of the circle through the bottoms of the tooth spaces */
+  readonly rootDiameter: number;
+}
+
+/**
+ * Create a ratchet wheel and a matching pawl.
+ *
+ * The teeth have radial locking faces, and straight backs.  The wheel turns freely
+ * counter-clockwise, while the pawl rides over the backs of the teeth.  When it
+ * tries to turn clockwise, the pawl catches a locking face.  The pawl's pivot is on
+ * the tangent to the tooth tips, so the load pushes straight along the pawl.  A
+ * spring or gravity must hold the pawl against the wheel.
+ */
+export function createRatchet(props: RatchetProps): RatchetResult {
+  const n = props.teeth;
+  const R = props.outerDiameter / 2;
+  const clearance = props.clearance ?? 0;
+  const boreDiameter = props.boreDiameter ?? 0;
+  const pivotDiameter = props.pawlPivotDiameter ?? 0;
+  if (!(Number.isInteger(n) && n >= 3)) {
+    throw new Error(`Invalid number of ratchet teeth ${n}`);
+  }
+  if (!(R > 0)) {
+    throw new Error(`Invalid ratchet diameter ${R * 2}`);
+  }
+  // distance between tooth tips
+  const tipPitch = 2 * R * Math.sin(Math.PI / n);
+  const depth = props.toothDepth ?? tipPitch / 2;
+  const pawlLength = props.pawlLength ?? tipPitch;
+  const pawlWidth = props.pawlWidth ?? depth;
+  if (!(depth > 0 && depth < R - boreDiameter / 2)) {
+    throw new Error(`Invalid ratchet tooth depth ${depth}`);
+  }
+  if (!(clearance >= 0 && clearance < depth / 2)) {
+    throw new Error(`Invalid clearance ${clearance}`);
+  }
+  if (!(pawlLength > clearance && pawlLength <= tipPitch)) {
+    throw new Error(
+      'The pawl length must be positive and at most the distance between tooth tips'
+    );
+  }
+  if (!(pawlWidth > pivotDiameter && pawlWidth > 0)) {
+    throw new Error('The pawl must be wider than its pivot hole');
+  }
+
+  // Each tooth has a radial face, then a back down to the next face
+  const wheelStart: Point2D = [R - depth, 0];
+  const wheelPath = new PathBuilder(wheelStart);
+  wheelPath.lineTo([R, 0]);
+  wheelPath.lineTo(ID2D.rotate(360 / n).mapPoint(...wheelStart));
+  const wheelSegments = wheelPath.segments;
+
+  // The pawl, engaged with the face on the +x axis, with its pivot below.  Its
+  // nose sits in the tooth space, against the face, and its inner edge clears
+  // the back of the tooth behind, which runs from that tooth's tip to the root
+  // of the face.
+  const backTip = ID2D.rotate(-360 / n).mapPoint(R, 0);
+  const backX = wheelStart[0] - backTip[0];
+  const backY = wheelStart[1] - backTip[1];
+  const backLen = Math.sqrt(backX * backX + backY * backY);
+  // unit normal of the back, pointing out of the tooth
+  const normal: Point2D = [backY / backLen, -backX / backLen];
+  // The nose is `clearance` from both the face and the back
+  const wheelNose: Point2D = [
+    wheelStart[0] + (clearance * (1 + normal[1])) / normal[0],
+    -clearance,
+  ];
+  const wheelHeel: Point2D = [R, -pawlLength];
+  if (
+    segmentDistance(wheelHeel, backTip, wheelStart) < clearance * (1 - 1e-9) ||
+    segmentDistance(backTip, wheelNose, wheelHeel) < clearance * (1 - 1e-9)
+  ) {
+    throw new Error(
+      'The pawl does not clear the tooth behind the one it holds'
+    );
+  }
+  const pivot: Point2D = [R + pawlWidth / 2, -pawlLength];
+  const toPawl = ID2D.translate(-pivot[0], -pivot[1]);
+  const nose = toPawl.mapPoint(...wheelNose);
+  const pawlPath = new PathBuilder(nose);
+  pawlPath.lineTo(toPawl.mapPoint(...wheelHeel));
+  pawlPath.arcTo([0, 0], toPawl.mapPoint(R + pawlWidth, -pawlLength), true);
+  pawlPath.lineTo(toPawl.mapPoint(R + pawlWidth, -clearance));
+  pawlPath.lineTo(nose);
+  const pawlSegments = pawlPath.segments;
+
+  return {
+    wheel: (pen) => {
+      drawRotatedCopies(pen, wheelStart, wheelSegments, n);
+      if (boreDiameter > 0) {
+        pen.circle(0, 0, boreDiameter);
+      }
+    },
+    pawl: (pen) => {
+      drawRotatedCopies(pen, nose, pawlSegments, 1);
+      if (pivotDiameter > 0) {
+        pen.circle(0, 0, pivotDiameter);
+      }
+    },
+    pawlPlacement: ID2D.translate(...pivot),
+    centerDistance: Math.sqrt(pivot[0] * pivot[0] + pivot[1] * pivot[1]),
+    rootDiameter: (R - depth) * 2,
+  };
+}
+
+/**
+ * Get the distance from a point to the line segment between `a` and `b`
+ */
+function segmentDistance(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lenSq = dx * dx + dy * dy;
+  let t = lenSq > 0 ? ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lenSq : 0;
+  t = Math.max(0, Math.min(1, t));
+  const ex = a[0] + dx * t - p[0];
+  const ey = a[1] + dy * t - p[1];
+  return Math.sqrt(ex * ex + ey * ey);
+}
@@ -1,36 +1,87 @@
 import {
   BodyID,
+  EdgeSelector,
+  FaceSelector,
+  ID2D,
   ID3D,
+  LoftOptions,
+  LoftSection,
   Pen2D,
   Point3D,
+  Profile,
   RecordingPen2D,
   ROOT2BY2,
   Shaper3D,
   Sketch,
   SketchToProfilePen,
+  SplitResult,
+  SweepOptions,
   XForm3D,
 } from '../geom/index.js';
 import { OCWirePen } from './wirePen.js';
 import {
+  BRepAdaptor_Curve,
+  BRepAdaptor_Surface,
+  BRepAlgoAPI_Common,
+  BRepAlgoAPI_Cut,
   BRepAlgoAPI_Fuse,
+  BRepBuilderAPI_MakeEdge,
+  BRepBuilderAPI_MakeFace,
+  BRepBuilderAPI_MakeShape,
+  BRepBuilderAPI_MakeWire,
   BRepBuilderAPI_Transform,
+  BRepFill_TypeOfContact,
+  BRepFilletAPI_MakeChamfer,
+  BRepFilletAPI_MakeFillet,
+  BRepOffset_Mode,
+  BRepOffsetAPI_MakeThickSolid,
+  BRepOffsetAPI_MakePipeShell,
+  BRepOffsetAPI_ThruSections,
+  BRepPrimAPI_MakeHalfSpace,
   BRepPrimAPI_MakePrism,
   BRepPrimAPI_MakeRevol,
+  BRepSweep_Revol,
+  ChFi3d_FilletShape,
+  GCE2d_MakeSegment,
+  GeomAbs_CurveType,
+  GeomAbs_JoinType,
+  Geom_CylindricalSurface,
   gp_Ax1,
+  gp_Ax3,
   gp_Dir,
+  gp_Pln,
   gp_Pnt,
+  gp_Pnt2d,
   gp_Trsf,
   gp_Vec,
+  Handle_Geom2d_Curve,
+  Handle_Geom2d_TrimmedCurve,
+  Handle_Geom_Surface,
   Message_ProgressRange,
   OpenCascadeInstance,
+  TopAbs_ShapeEnum,
+  TopExp_Explorer,
   TopoDS_Builder,
   TopoDS_Compound,
+  TopoDS_Edge,
   TopoDS_Face,
   TopoDS_Shape,
+  TopoDS_Wire,
+  TopTools_IndexedMapOfShape,
+  TopTools_ListOfShape,
 } from 'opencascade.js/dist/opencascade.full.js';
 
 let g_bodyCounter = 1;
 const RADSPERDEGREE = Math.PI / 180;
+// Edges are sampled at this many intervals to check them against edge selectors
+const EDGE_SAMPLE_INTERVALS = 8;
+// Faces are sampled on a grid with this many intervals in each direction to check
+// them against face selectors
+const FACE_SAMPLE_INTERVALS = 8;
+// Distance and direction tolerance for edge and face selectors
+const EDGE_SELECT_TOLERANCE = 1e-6;
+// Tolerance for coincident surfaces in shell operations
+const SHELL_TOLERANCE = 1e-4;
 
 export interface ShaperProps {
   /**
@@ -66,12 +117,15 @@ export class OCBodyShaper implements Shaper3D {
   private oc: OpenCascadeInstance;
   private shapes: Map<BodyID, TopoDS_Shape>;
   private meshes: Set<BodyID>;
+  // faces of each body that were generated from tagged sketch paths, by tag
+  private faceTags: Map<BodyID, Map<string, TopoDS_Shape[]>>;
   private props: ShaperProps;
 
   constructor(oc: OpenCascadeInstance, props: ShaperProps) {
     this.oc = oc;
     this.shapes = new Map<BodyID, TopoDS_Shape>();
     this.meshes = new Set<BodyID>();
+    this.faceTags = new Map<BodyID, Map<string, TopoDS_Shape[]>>();
     this.props = props;
   }
 
@@ -80,12 +134,30 @@ export class OCBodyShaper implements Shaper3D {
       shape.delete();
     }
     this.shapes.clear();
+    for (const id of [...this.faceTags.keys()]) {
+      this.deleteTags(id);
+    }
   }
 
   getShape(id: BodyID): TopoDS_Shape | undefined {
     return this.shapes.get(id);
   }
 
+  /**
+   * Get the faces of a body that were generated from sketch paths started with the
+   * given tag.  The faces belong to the shaper, and are valid until the body changes.
+   */
+  getTaggedFaces(id: BodyID, tag: string): readonly TopoDS_Shape[] {
+    return this.faceTags.get(id)?.get(tag) ?? [];
+  }
+
+  /**
+   * Get the tags of the faces of a body
+   */
+  getTags(id: BodyID): string[] {
+    return [...(this.faceTags.get(id)?.keys() ?? [])];
+  }
+
   getMesh(id: BodyID): TopoDS_Shape | undefined {
     const shape = this.shapes.get(id);
     if (!shape) {
@@ -115,6 +187,7 @@ export class OCBodyShaper implements Shaper3D {
     ids.forEach((id) => {
       this.shapes.delete(id);
       this.meshes.delete(id);
+      this.deleteTags(id);
     });
     return ret;
   }
@@ -155,6 +228,9 @@ export class OCBodyShaper implements Shaper3D {
       const id = `b${g_bodyCounter++}`;
       this.shapes.set(id, prism.Shape());
       this.meshes.delete(id);
+      for (let i = 0; i < wirePen.wireCount(); i++) {
+        this.tagGeneratedFaces(id, wirePen, i, prism);
+      }
       return id;
     } finally {
       prism?.delete();
@@ -202,6 +278,7 @@ export class OCBodyShaper implements Shaper3D {
         const id = `b${g_bodyCounter++}`;
         this.shapes.set(id, prism.Shape());
         this.meshes.delete(id);
+        this.tagGeneratedFaces(id, wirePen, i, prism);
         ret.push(id);
         face?.delete();
         face = undefined;
@@ -217,6 +294,431 @@ export class OCBodyShaper implements Shaper3D {
     return ret;
   }
 
+  twistExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    twistDegrees: number
+  ): BodyID {
+    if (!twistDegrees) {
+      return this.extrude(plane, sketch, start, end);
+    }
+    // each outline is swept separately, and then the holes are cut out
+    const wirePen = this.drawWires(plane, sketch, start);
+    try {
+      const count = wirePen.wireCount();
+      if (!count) {
+        throw new Error('No wires to extrude');
+      }
+      return this.bodyWithHoles(count, (i) => {
+        const wire = wirePen.makePathWire(i);
+        try {
+          return this.twistSweep(
+            wire,
+            start,
+            end,
+            twistDegrees * RADSPERDEGREE,
+            wirePen,
+            i
+          );
+        } finally {
+          wire.delete();
+        }
+      });
+    } finally {
+      wirePen.delete();
+    }
+  }
+
+  helixSweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    pitch: number
+  ): BodyID {
+    if (!(pitch !== 0 && isFinite(pitch))) {
+      throw new Error(`Invalid helix pitch ${pitch}`);
+    }
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const dz = end[2] - start[2];
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (!(len > 0)) {
+      throw new Error('Helical sweep must have a positive length');
+    }
+    // Twisting the sketch as it moves along the axis makes every point trace a helix
+    return this.twistExtrude(plane, sketch, start, end, (len / pitch) * 360);
+  }
+
+  /**
+   * Sweep a closed wire along the line from start to end, rotating it around that line
+   *
+   * @param wirePen the pen that made the wire, and `index` is its path index.  The
+   *      faces generated from it are tagged with the path's tag.
+   * @returns the ID of the new solid body
+   */
+  private twistSweep(
+    wire: TopoDS_Wire,
+    start: Point3D,
+    end: Point3D,
+    twistRadians: number,
+    wirePen: OCWirePen,
+    index: number
+  ): BodyID {
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const dz = end[2] - start[2];
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (!(len > 0)) {
+      throw new Error('Twisted extrusion must have a positive length');
+    }
+    let p0: gp_Pnt | undefined = undefined;
+    let p1: gp_Pnt | undefined = undefined;
+    let spineEdge: BRepBuilderAPI_MakeEdge | undefined = undefined;
+    let spineWire: BRepBuilderAPI_MakeWire | undefined = undefined;
+    let axDir: gp_Dir | undefined = undefined;
+    let xDir: gp_Dir | undefined = undefined;
+    let ax3: gp_Ax3 | undefined = undefined;
+    let surface: Handle_Geom_Surface | undefined = undefined;
+    let uv0: gp_Pnt2d | undefined = undefined;
+    let uv1: gp_Pnt2d | undefined = undefined;
+    let segment: GCE2d_MakeSegment | undefined = undefined;
+    let trimmed: Handle_Geom2d_TrimmedCurve | undefined = undefined;
+    let curve: Handle_Geom2d_Curve | undefined = undefined;
+    let helixEdge: BRepBuilderAPI_MakeEdge | undefined = undefined;
+    let helixWire: BRepBuilderAPI_MakeWire | undefined = undefined;
+    try {
+      p0 = new this.oc.gp_Pnt_3(start[0], start[1], start[2]);
+      p1 = new this.oc.gp_Pnt_3(end[0], end[1], end[2]);
+      spineEdge = new this.oc.BRepBuilderAPI_MakeEdge_3(p0, p1);
+      spineWire = new this.oc.BRepBuilderAPI_MakeWire_2(spineEdge.Edge());
+      // The auxiliary spine is a helix around the spine, which turns the profile as it is swept.
+      // It's drawn as a line in the (angle, height) parameter space of a cylinder
+      axDir = new this.oc.gp_Dir_4(dx, dy, dz);
+      const [px, py, pz] = perpendicular(dx, dy, dz);
+      xDir = new this.oc.gp_Dir_4(px, py, pz);
+      ax3 = new this.oc.gp_Ax3_3(p0, axDir, xDir);
+      // Don't delete the surface itself.  The handle owns it
+      const cylinder: Geom_CylindricalSurface =
+        new this.oc.Geom_CylindricalSurface_1(ax3, len);
+      surface = new this.oc.Handle_Geom_Surface_2(cylinder);
+      uv0 = new this.oc.gp_Pnt2d_3(0, 0);
+      uv1 = new this.oc.gp_Pnt2d_3(twistRadians, len);
+      segment = new this.oc.GCE2d_MakeSegment_1(uv0, uv1);
+      trimmed = segment.Value();
+      curve = new this.oc.Handle_Geom2d_Curve_2(trimmed.get());
+      helixEdge = new this.oc.BRepBuilderAPI_MakeEdge_30(curve, surface);
+      const edge = helixEdge.Edge();
+      this.oc.BRepLib.BuildCurves3d_2(edge);
+      helixWire = new this.oc.BRepBuilderAPI_MakeWire_2(edge);
+      const auxSpine = helixWire.Wire();
+      return this.pipeSweep(
+        wire,
+        spineWire.Wire(),
+        (pipe) =>
+          pipe.SetMode_5(
+            auxSpine,
+            false,
+            this.oc.BRepFill_TypeOfContact
+              .BRepFill_NoContact as BRepFill_TypeOfContact
+          ),
+        'Twisted extrusion',
+        wirePen,
+        index
+      );
+    } finally {
+      helixWire?.delete();
+      helixEdge?.delete();
+      curve?.delete();
+      trimmed?.delete();
+      segment?.delete();
+      uv1?.delete();
+      uv0?.delete();
+      surface?.delete();
+      ax3?.delete();
+      xDir?.delete();
+      axDir?.delete();
+      spineWire?.delete();
+      spineEdge?.delete();
+      p1?.delete();
+      p0?.delete();
+    }
+  }
+
+  sweep(
+    plane: XForm3D,
+    sketch: Sketch,
+    path: Profile,
+    options?: SweepOptions
+  ): BodyID {
+    const mode = options?.mode ?? 'frenet';
+    let pathPen: OCWirePen | undefined = undefined;
+    let wirePen: OCWirePen | undefined = undefined;
+    let spine: TopoDS_Wire | undefined = undefined;
+    let binormal: gp_Dir | undefined = undefined;
+    try {
+      pathPen = new OCWirePen(this.oc, false);
+      path(pathPen);
+      if (pathPen.wireCount() !== 1) {
+        throw new Error('Sweep path must be a single connected path');
+      }
+      spine = pathPen.makePathWire(0);
+      let setMode: (pipe: BRepOffsetAPI_MakePipeShell) => void;
+      if (mode === 'fixedBinormal') {
+        const [bx, by, bz] = options?.binormal ?? [0, 0, 1];
+        if (!(bx * bx + by * by + bz * bz > 0)) {
+          throw new Error('Sweep binormal must not be zero');
+        }
+        const dir = new this.oc.gp_Dir_4(bx, by, bz);
+        binormal = dir;
+        setMode = (pipe) => pipe.SetMode_3(dir);
+      } else {
+        setMode = (pipe) => pipe.SetMode_1(true);
+      }
+      // each outline is swept separately, and then the holes are cut out
+      wirePen = this.drawWires(plane, sketch, [0, 0, 0]);
+      const count = wirePen.wireCount();
+      if (!count) {
+        throw new Error('No wires to sweep');
+      }
+      return this.bodyWithHoles(count, (i) => {
+        const wire = wirePen!.makePathWire(i);
+        try {
+          return this.pipeSweep(wire, spine!, setMode, 'Sweep', wirePen!, i);
+        } finally {
+          wire.delete();
+        }
+      });
+    } finally {
+      binormal?.delete();
+      spine?.delete();
+      wirePen?.delete();
+      pathPen?.delete();
+    }
+  }
+
+  /**
+   * Sweep a closed wire along a spine to make a solid
+   *
+   * @param setMode sets how the wire is oriented as it moves along the spine
+   * @param opName name of the operation, for error messages
+   * @param wirePen the pen that made the wire, and `index` is its path index.  The
+   *      faces generated from it are tagged with the path's tag.
+   * @returns the ID of the new solid body
+   */
+  private pipeSweep(
+    wire: TopoDS_Wire,
+    spine: TopoDS_Wire,
+    setMode: (pipe: BRepOffsetAPI_MakePipeShell) => void,
+    opName: string,
+    wirePen: OCWirePen,
+    index: number
+  ): BodyID {
+    let pipe: BRepOffsetAPI_MakePipeShell | undefined = undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    try {
+      pipe = new this.oc.BRepOffsetAPI_MakePipeShell(spine);
+      setMode(pipe);
+      pipe.Add_1(wire, false, false);
+      mpr = new this.oc.Message_ProgressRange_1();
+      pipe.Build(mpr);
+      if (!pipe.IsDone()) {
+        throw new Error(`${opName} did not complete`);
+      }
+      if (!pipe.MakeSolid()) {
+        throw new Error(`${opName} did not produce a solid`);
+      }
+      const id = `b${g_bodyCounter++}`;
+      this.shapes.set(id, pipe.Shape());
+      this.meshes.delete(id);
+      this.tagGeneratedFaces(id, wirePen, index, pipe);
+      return id;
+    } finally {
+      mpr?.delete();
+      pipe?.delete();
+    }
+  }
+
+  taperExtrude(
+    plane: XForm3D,
+    sketch: Sketch,
+    start: Point3D,
+    end: Point3D,
+    endScale: number
+  ): BodyID {
+    if (!(endScale > 0)) {
+      throw new Error('Tapered extrusion must have a positive end scale');
+    }
+    if (endScale === 1) {
+      return this.extrude(plane, sketch, start, end);
+    }
+    let startPen: OCWirePen | undefined = undefined;
+    let endPen: OCWirePen | undefined = undefined;
+    try {
+      // draw the sketch at both ends, and then loft between corresponding outlines
+      startPen = this.drawWires(plane, sketch, start);
+      endPen = this.drawWires(
+        plane,
+        ID2D.preBasis([endScale, 0, 0], [0, endScale, 0], [0, 0, 1]).mapSketch(
+          sketch
+        ),
+        end
+      );
+      const count = startPen.wireCount();
+      if (!count) {
+        throw new Error('No wires to extrude');
+      }
+      if (endPen.wireCount() !== count) {
+        throw new Error('Tapered extrusion ends do not match');
+      }
+      return this.bodyWithHoles(count, (i) => {
+        const startWire = startPen!.makePathWire(i);
+        const endWire = endPen!.makePathWire(i);
+        try {
+          return this.loftWires([startWire, endWire], true, startPen!, i);
+        } finally {
+          endWire.delete();
+          startWire.delete();
+        }
+      });
+    } finally {
+      endPen?.delete();
+      startPen?.delete();
+    }
+  }
+
+  /**
+   * Draw a sketch into a new wire pen, with each outline in a separate wire
+   *
+   * @param position the position of the transformed sketch origin
+   */
+  private drawWires(
+    plane: XForm3D,
+    sketch: Sketch,
+    position: Point3D
+  ): OCWirePen {
+    const wirePen = new OCWirePen(this.oc, false);
+    try {
+      const xform = ID3D.translate(position[0], position[1], position[2]);
+      const pen2d: Pen2D = new SketchToProfilePen(
+        xform.mapXForm(plane).mapPen(wirePen)
+      );
+      const ccwPen = new MakeCCWPen(
+        pen2d,
+        this.props.closeSnapDistance,
+        this.props.closeSnapProp
+      );
+      sketch(ccwPen);
+      ccwPen.flush();
+    } catch (e) {
+      wirePen.delete();
+      throw e;
+    }
+    return wirePen;
+  }
+
+  loft(sections: readonly LoftSection[], options?: LoftOptions): BodyID {
+    if (sections.length < 2) {
+      throw new Error('Loft must have at least two sections');
+    }
+    const pens: OCWirePen[] = [];
+    try {
+      for (const section of sections) {
+        pens.push(this.drawWires(section.plane, section.sketch, [0, 0, 0]));
+      }
+      const count = pens[0].wireCount();
+      if (!count) {
+        throw new Error('No wires to loft');
+      }
+      if (pens.some((pen) => pen.wireCount() !== count)) {
+        throw new Error('Loft sections do not match');
+      }
+      return this.bodyWithHoles(count, (i) => {
+        const wires: TopoDS_Wire[] = [];
+        try {
+          for (const pen of pens) {
+            wires.push(pen.makePathWire(i));
+          }
+          return this.loftWires(wires, !!options?.ruled, pens[0], i);
+        } finally {
+          wires.forEach((wire) => wire.delete());
+        }
+      });
+    } finally {
+      pens.forEach((pen) => pen.delete());
+    }
+  }
+
+  /**
+   * Make a separate body from each outline of a sketch, and then cut the holes out
+   * of the first one
+   *
+   * @param count the number of outlines
+   * @param makeBody makes the body for the outline with the given path index
+   * @returns the ID of the body made from the first outline
+   */
+  private bodyWithHoles(
+    count: number,
+    makeBody: (index: number) => BodyID
+  ): BodyID {
+    const ids: BodyID[] = [];
+    try {
+      for (let i = 0; i < count; i++) {
+        ids.push(makeBody(i));
+      }
+    } catch (e) {
+      this.detachShapes(ids).forEach((shape) => shape.delete());
+      throw e;
+    }
+    const holes = ids.slice(1);
+    if (holes.length) {
+      this.cut(ids[0], holes);
+      this.detachShapes(holes).forEach((shape) => shape.delete());
+    }
+    return ids[0];
+  }
+
+  /**
+   * Make a solid by connecting a sequence of closed wires
+   *
+   * @param ruled true to connect consecutive wires with ruled surfaces, or false
+   *      for smooth surfaces through all of them
+   * @param wirePen the pen that made the first wire, and `index` is its path index.
+   *      The faces generated from it are tagged with the path's tag.
+   * @returns the ID of the new solid body
+   */
+  private loftWires(
+    wires: TopoDS_Wire[],
+    ruled: boolean,
+    wirePen: OCWirePen,
+    index: number
+  ): BodyID {
+    let loft: BRepOffsetAPI_ThruSections | undefined = undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    try {
+      loft = new this.oc.BRepOffsetAPI_ThruSections(true, ruled, 1e-6);
+      loft.CheckCompatibility(false);
+      for (const wire of wires) {
+        loft.AddWire(wire);
+      }
+      mpr = new this.oc.Message_ProgressRange_1();
+      loft.Build(mpr);
+      if (!loft.IsDone()) {
+        throw new Error('Loft did not complete');
+      }
+      const id = `b${g_bodyCounter++}`;
+      this.shapes.set(id, loft.Shape());
+      this.meshes.delete(id);
+      this.tagGeneratedFaces(id, wirePen, index, loft);
+      return id;
+    } finally {
+      mpr?.delete();
+      loft?.delete();
+    }
+  }
+
   revolve(
     plane: XForm3D,
     sketch: Sketch,
@@ -229,6 +731,8 @@ export class OCBodyShaper implements Shaper3D {
     let axDir: gp_Dir | undefined = undefined;
     let axis: gp_Ax1 | undefined = undefined;
     let revol: BRepPrimAPI_MakeRevol | undefined = undefined;
+    let sweep: BRepSweep_Revol | undefined = undefined;
+    let resultFaces: TopTools_IndexedMapOfShape | undefined = undefined;
     try {
       wirePen = new OCWirePen(this.oc, true);
       const pen2d: Pen2D = new SketchToProfilePen(wirePen);
@@ -257,13 +761,41 @@ export class OCBodyShaper implements Shaper3D {
         );
       }
       const id = `b${g_bodyCounter++}`;
-      this.shapes.set(id, revol.Shape());
+      const shape = revol.Shape();
+      this.shapes.set(id, shape);
       this.meshes.delete(id);
+      let sweptFaces: ((edge: TopoDS_Edge) => TopoDS_Shape[]) | undefined;
+      if (angleDegrees >= 360 || angleDegrees <= -360) {
+        // A full revolution doesn't report the faces generated by edges that sweep
+        // into a plane, so get those from the sweep
+        const revolSweep = revol.Revol();
+        sweep = revolSweep;
+        const faceMap = new this.oc.TopTools_IndexedMapOfShape_1();
+        resultFaces = faceMap;
+        this.oc.TopExp.MapShapes_1(
+          shape,
+          this.oc.TopAbs_ShapeEnum.TopAbs_FACE as TopAbs_ShapeEnum,
+          faceMap
+        );
+        sweptFaces = (edge) => {
+          const swept = revolSweep.Shape_2(edge);
+          if (faceMap.Contains(swept)) {
+            return [swept];
+          }
+          swept.delete();
+          return [];
+        };
+      }
+      for (let i = 0; i < wirePen.wireCount(); i++) {
+        this.tagGeneratedFaces(id, wirePen, i, revol, sweptFaces);
+      }
       const startXForm = ID3D.translate(position[0], position[1], position[2]);
       const totalXForm = startXForm.mapXForm(plane);
       this.moveAndScale(totalXForm, id);
       return id;
     } finally {
+      resultFaces?.delete();
+      sweep?.delete();
       revol?.delete();
       axis?.delete();
       axDir?.delete();
@@ -312,6 +844,7 @@ export class OCBodyShaper implements Shaper3D {
       if (!shapeTransform) {
         throw new Error(`Shape instancing transform didn't complete`);
       }
+      this.updateTags(bodyId, [bodyId], shapeTransform);
       this.shapes.set(bodyId, shapeTransform.Shape());
       this.meshes.delete(bodyId);
     } finally {
@@ -385,6 +918,7 @@ export class OCBodyShaper implements Shaper3D {
         throw new Error('Fuse operation did not complete');
       }
       const newTarget = algo.Shape();
+      this.updateTags(targetId, [targetId, toolId], algo);
       target.delete();
       //      const bb = new this.oc.Bnd_Box_1();
       //      this.oc.BRepBndLib.Add(newTarget, bb, false);
@@ -421,6 +955,7 @@ export class OCBodyShaper implements Shaper3D {
         throw new Error('Fuse operation did not complete');
       }
       const newTarget = algo.Shape();
+      this.updateTags(targetId, [targetId, toolId], algo);
       target.delete();
       this.shapes.set(targetId, newTarget);
       this.meshes.delete(targetId);
@@ -430,6 +965,551 @@ export class OCBodyShaper implements Shaper3D {
     }
   }
 
+  intersect(targetId: BodyID, toolId: BodyID | BodyID[]): void {
+    if (Array.isArray(toolId)) {
+      for (const t of toolId) {
+        this.intersect(targetId, t);
+      }
+      return;
+    }
+    let target = this.shapes.get(targetId);
+    if (!target) {
+      throw new Error(`Invalid target shape ID ${targetId}`);
+    }
+    const tool = this.shapes.get(toolId);
+    if (!tool) {
+      throw new Error(`Invalid tool shape ID ${toolId}`);
+    }
+    let algo: BRepAlgoAPI_Common | undefined = undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    try {
+      mpr = new this.oc.Message_ProgressRange_1();
+      algo = new this.oc.BRepAlgoAPI_Common_3(target, tool, mpr);
+      if (!algo.IsDone()) {
+        throw new Error('Common operation did not complete');
+      }
+      const newTarget = algo.Shape();
+      this.updateTags(targetId, [targetId, toolId], algo);
+      target.delete();
+      this.shapes.set(targetId, newTarget);
+      this.meshes.delete(targetId);
+    } finally {
+      algo?.delete();
+      mpr?.delete();
+    }
+  }
+
+  split(bodyId: BodyID, tool: XForm3D | BodyID): SplitResult {
+    const shape = this.shapes.get(bodyId);
+    if (!shape) {
+      throw new Error(`Invalid body ID ${bodyId}`);
+    }
+    let halfSpace: TopoDS_Shape | undefined = undefined;
+    try {
+      let toolShape: TopoDS_Shape | undefined;
+      let sourceIds: BodyID[];
+      if (typeof tool === 'string') {
+        toolShape = this.shapes.get(tool);
+        if (!toolShape) {
+          throw new Error(`Invalid tool shape ID ${tool}`);
+        }
+        sourceIds = [bodyId, tool];
+      } else {
+        halfSpace = this.makeHalfSpace(tool);
+        toolShape = halfSpace;
+        sourceIds = [bodyId];
+      }
+      const inside = this.splitSide(shape, toolShape, true, sourceIds);
+      let outside: BodyID | undefined;
+      try {
+        outside = this.splitSide(shape, toolShape, false, sourceIds);
+      } catch (e) {
+        if (inside) {
+          this.detachShapes([inside]).forEach((s) => s.delete());
+        }
+        throw e;
+      }
+      return { inside, outside };
+    } finally {
+      halfSpace?.delete();
+    }
+  }
+
+  /**
+   * Make the solid on the +z side of the z=0 plane of a transform
+   */
+  private makeHalfSpace(plane: XForm3D): TopoDS_Shape {
+    const origin = plane.mapPoint(0, 0, 0);
+    const u = sub(plane.mapPoint(1, 0, 0), origin);
+    const v = sub(plane.mapPoint(0, 1, 0), origin);
+    const normal = cross(u, v);
+    const len = Math.sqrt(dot(normal, normal));
+    if (!(len > 0)) {
+      throw new Error('Invalid split plane');
+    }
+    let pnt: gp_Pnt | undefined = undefined;
+    let dir: gp_Dir | undefined = undefined;
+    let pln: gp_Pln | undefined = undefined;
+    let face: BRepBuilderAPI_MakeFace | undefined = undefined;
+    let refPnt: gp_Pnt | undefined = undefined;
+    let algo: BRepPrimAPI_MakeHalfSpace | undefined = undefined;
+    try {
+      pnt = new this.oc.gp_Pnt_3(origin[0], origin[1], origin[2]);
+      dir = new this.oc.gp_Dir_4(normal[0], normal[1], normal[2]);
+      pln = new this.oc.gp_Pln_3(pnt, dir);
+      face = new this.oc.BRepBuilderAPI_MakeFace_3(pln);
+      refPnt = new this.oc.gp_Pnt_3(
+        origin[0] + normal[0] / len,
+        origin[1] + normal[1] / len,
+        origin[2] + normal[2] / len
+      );
+      algo = new this.oc.BRepPrimAPI_MakeHalfSpace_1(face.Face(), refPnt);
+      return algo.Shape();
+    } finally {
+      algo?.delete();
+      refPnt?.delete();
+      face?.delete();
+      pln?.delete();
+      dir?.delete();
+      pnt?.delete();
+    }
+  }
+
+  /**
+   * Make a new body from the part of a shape that is inside or outside a tool
+   *
+   * @param sourceIds the bodies that the tagged faces come from
+   * @returns the ID of the new body, or undefined if there is no part on that side
+   */
+  private splitSide(
+    shape: TopoDS_Shape,
+    tool: TopoDS_Shape,
+    isInside: boolean,
+    sourceIds: BodyID[]
+  ): BodyID | undefined {
+    let algo: BRepAlgoAPI_Common | BRepAlgoAPI_Cut | undefined = undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    let explorer: TopExp_Explorer | undefined = undefined;
+    try {
+      mpr = new this.oc.Message_ProgressRange_1();
+      algo = isInside
+        ? new this.oc.BRepAlgoAPI_Common_3(shape, tool, mpr)
+        : new this.oc.BRepAlgoAPI_Cut_3(shape, tool, mpr);
+      if (!algo.IsDone()) {
+        throw new Error('Split operation did not complete');
+      }
+      const result = algo.Shape();
+      explorer = new this.oc.TopExp_Explorer_2(
+        result,
+        this.oc.TopAbs_ShapeEnum.TopAbs_SOLID as TopAbs_ShapeEnum,
+        this.oc.TopAbs_ShapeEnum.TopAbs_SHAPE as TopAbs_ShapeEnum
+      );
+      if (!explorer.More()) {
+        result.delete();
+        return undefined;
+      }
+      const id = `b${g_bodyCounter++}`;
+      this.shapes.set(id, result);
+      this.meshes.delete(id);
+      this.updateTags(id, sourceIds, algo);
+      return id;
+    } finally {
+      explorer?.delete();
+      algo?.delete();
+      mpr?.delete();
+    }
+  }
+
+  fillet(bodyId: BodyID, edges: EdgeSelector, radius: number): void {
+    if (!(radius > 0)) {
+      throw new Error(`Invalid fillet radius ${radius}`);
+    }
+    this.modifyEdges(bodyId, edges, 'Fillet', (shape, selected) => {
+      const algo = new this.oc.BRepFilletAPI_MakeFillet(
+        shape,
+        this.oc.ChFi3d_FilletShape.ChFi3d_Rational as ChFi3d_FilletShape
+      );
+      for (const edge of selected) {
+        algo.Add_2(radius, edge);
+      }
+      return algo;
+    });
+  }
+
+  chamfer(bodyId: BodyID, edges: EdgeSelector, distance: number): void {
+    if (!(distance > 0)) {
+      throw new Error(`Invalid chamfer distance ${distance}`);
+    }
+    this.modifyEdges(bodyId, edges, 'Chamfer', (shape, selected) => {
+      const algo = new this.oc.BRepFilletAPI_MakeChamfer(shape);
+      for (const edge of selected) {
+        algo.Add_2(distance, edge);
+      }
+      return algo;
+    });
+  }
+
+  shell(bodyId: BodyID, thickness: number, openFaces: FaceSelector): void {
+    if (!(thickness > 0)) {
+      throw new Error(`Invalid shell thickness ${thickness}`);
+    }
+    const shape = this.shapes.get(bodyId);
+    if (!shape) {
+      throw new Error(`Invalid body ID ${bodyId}`);
+    }
+    let selected: TopoDS_Face[] = [];
+    let faceList: TopTools_ListOfShape | undefined = undefined;
+    let algo: BRepOffsetAPI_MakeThickSolid | undefined = undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    try {
+      selected = this.selectFaces(shape, openFaces, this.faceTags.get(bodyId));
+      if (!selected.length) {
+        throw new Error('No faces selected for shell');
+      }
+      faceList = new this.oc.TopTools_ListOfShape_1();
+      for (const face of selected) {
+        faceList.Append_1(face).delete();
+      }
+      algo = new this.oc.BRepOffsetAPI_MakeThickSolid();
+      mpr = new this.oc.Message_ProgressRange_1();
+      // A negative offset puts the walls inside the surface
+      algo.MakeThickSolidByJoin(
+        shape,
+        faceList,
+        -thickness,
+        SHELL_TOLERANCE,
+        this.oc.BRepOffset_Mode.BRepOffset_Skin as BRepOffset_Mode,
+        false,
+        false,
+        this.oc.GeomAbs_JoinType.GeomAbs_Arc as GeomAbs_JoinType,
+        false,
+        mpr
+      );
+      if (!algo.IsDone()) {
+        throw new Error('Shell operation did not complete');
+      }
+      const newShape = algo.Shape();
+      this.updateTags(bodyId, [bodyId], algo);
+      shape.delete();
+      this.shapes.set(bodyId, newShape);
+      this.meshes.delete(bodyId);
+    } finally {
+      mpr?.delete();
+      algo?.delete();
+      faceList?.delete();
+      selected.forEach((face) => face.delete());
+    }
+  }
+
+  /**
+   * Replace a body with the result of an operation on its selected edges
+   *
+   * @param opName name of the operation, for error messages
+   * @param makeAlgo create the algorithm that modifies the edges
+   */
+  private modifyEdges(
+    bodyId: BodyID,
+    edges: EdgeSelector,
+    opName: string,
+    makeAlgo: (
+      shape: TopoDS_Shape,
+      selected: TopoDS_Edge[]
+    ) => BRepFilletAPI_MakeFillet | BRepFilletAPI_MakeChamfer
+  ): void {
+    const shape = this.shapes.get(bodyId);
+    if (!shape) {
+      throw new Error(`Invalid body ID ${bodyId}`);
+    }
+    let selected: TopoDS_Edge[] = [];
+    let algo: BRepFilletAPI_MakeFillet | BRepFilletAPI_MakeChamfer | undefined =
+      undefined;
+    let mpr: Message_ProgressRange | undefined = undefined;
+    try {
+      selected = this.selectEdges(shape, edges, this.faceTags.get(bodyId));
+      if (!selected.length) {
+        throw new Error(`No edges selected for ${opName.toLowerCase()}`);
+      }
+      algo = makeAlgo(shape, selected);
+      mpr = new this.oc.Message_ProgressRange_1();
+      algo.Build(mpr);
+      if (!algo.IsDone()) {
+        throw new Error(`${opName} operation did not complete`);
+      }
+      const newShape = algo.Shape();
+      this.updateTags(bodyId, [bodyId], algo);
+      shape.delete();
+      this.shapes.set(bodyId, newShape);
+      this.meshes.delete(bodyId);
+    } finally {
+      mpr?.delete();
+      algo?.delete();
+      selected.forEach((edge) => edge.delete());
+    }
+  }
+
+  /**
+   * Get the distinct edges of a shape that match a selector
+   *
+   * @param tags the tagged faces of the shape
+   */
+  private selectEdges(
+    shape: TopoDS_Shape,
+    selector: EdgeSelector,
+    tags: Map<string, TopoDS_Shape[]> | undefined
+  ): TopoDS_Edge[] {
+    const ret: TopoDS_Edge[] = [];
+    let map: TopTools_IndexedMapOfShape | undefined = undefined;
+    // edges of the tagged faces, by tag, made when they're needed
+    const tagEdges = new Map<string, TopTools_IndexedMapOfShape>();
+    const getTagEdges = (tag: string) => {
+      let edgeMap = tagEdges.get(tag);
+      if (!edgeMap) {
+        edgeMap = new this.oc.TopTools_IndexedMapOfShape_1();
+        tagEdges.set(tag, edgeMap);
+        for (const face of tags?.get(tag) ?? []) {
+          this.oc.TopExp.MapShapes_1(
+            face,
+            this.oc.TopAbs_ShapeEnum.TopAbs_EDGE as TopAbs_ShapeEnum,
+            edgeMap
+          );
+        }
+      }
+      return edgeMap;
+    };
+    try {
+      map = new this.oc.TopTools_IndexedMapOfShape_1();
+      this.oc.TopExp.MapShapes_1(
+        shape,
+        this.oc.TopAbs_ShapeEnum.TopAbs_EDGE as TopAbs_ShapeEnum,
+        map
+      );
+      const count = map.Extent();
+      for (let i = 1; i <= count; ++i) {
+        const edge = this.oc.TopoDS.Edge_1(map.FindKey(i));
+        let curve: BRepAdaptor_Curve | undefined = undefined;
+        try {
+          curve = new this.oc.BRepAdaptor_Curve_2(edge);
+          const t0 = curve.FirstParameter();
+          const t1 = curve.LastParameter();
+          const points: Point3D[] = [];
+          for (let j = 0; j <= EDGE_SAMPLE_INTERVALS; ++j) {
+            const p = curve.Value(t0 + ((t1 - t0) * j) / EDGE_SAMPLE_INTERVALS);
+            points.push([p.X(), p.Y(), p.Z()]);
+            p.delete();
+          }
+          const isLine =
+            curve.GetType() ===
+            (this.oc.GeomAbs_CurveType.GeomAbs_Line as GeomAbs_CurveType);
+          const hasTag = (tag: string) => getTagEdges(tag).Contains(edge);
+          if (edgeMatches(selector, points, isLine, hasTag)) {
+            ret.push(edge);
+          } else {
+            edge.delete();
+          }
+        } catch (e) {
+          edge.delete();
+          throw e;
+        } finally {
+          curve?.delete();
+        }
+      }
+    } catch (e) {
+      ret.forEach((edge) => edge.delete());
+      throw e;
+    } finally {
+      map?.delete();
+      tagEdges.forEach((edgeMap) => edgeMap.delete());
+    }
+    return ret;
+  }
+
+  /**
+   * Get the distinct faces of a shape that match a selector
+   *
+   * @param tags the tagged faces of the shape
+   */
+  private selectFaces(
+    shape: TopoDS_Shape,
+    selector: FaceSelector,
+    tags: Map<string, TopoDS_Shape[]> | undefined
+  ): TopoDS_Face[] {
+    const ret: TopoDS_Face[] = [];
+    let map: TopTools_IndexedMapOfShape | undefined = undefined;
+    // the tagged faces, by tag, made when they're needed
+    const tagFaces = new Map<string, TopTools_IndexedMapOfShape>();
+    const getTagFaces = (tag: string) => {
+      let faceMap = tagFaces.get(tag);
+      if (!faceMap) {
+        faceMap = new this.oc.TopTools_IndexedMapOfShape_1();
+        tagFaces.set(tag, faceMap);
+        for (const face of tags?.get(tag) ?? []) {
+          faceMap.Add(face);
+        }
+      }
+      return faceMap;
+    };
+    try {
+      map = new this.oc.TopTools_IndexedMapOfShape_1();
+      this.oc.TopExp.MapShapes_1(
+        shape,
+        this.oc.TopAbs_ShapeEnum.TopAbs_FACE as TopAbs_ShapeEnum,
+        map
+      );
+      const count = map.Extent();
+      for (let i = 1; i <= count; ++i) {
+        const face = this.oc.TopoDS.Face_1(map.FindKey(i));
+        let surface: BRepAdaptor_Surface | undefined = undefined;
+        try {
+          // sample the surface over the bounds of the face
+          surface = new this.oc.BRepAdaptor_Surface_2(face, true);
+          const u0 = surface.FirstUParameter();
+          const u1 = surface.LastUParameter();
+          const v0 = surface.FirstVParameter();
+          const v1 = surface.LastVParameter();
+          const points: Point3D[] = [];
+          for (let j = 0; j <= FACE_SAMPLE_INTERVALS; ++j) {
+            const u = u0 + ((u1 - u0) * j) / FACE_SAMPLE_INTERVALS;
+            for (let k = 0; k <= FACE_SAMPLE_INTERVALS; ++k) {
+              const v = v0 + ((v1 - v0) * k) / FACE_SAMPLE_INTERVALS;
+              const p = surface.Value(u, v);
+              points.push([p.X(), p.Y(), p.Z()]);
+              p.delete();
+            }
+          }
+          const hasTag = (tag: string) => getTagFaces(tag).Contains(face);
+          if (faceMatches(selector, points, hasTag)) {
+            ret.push(face);
+          } else {
+            face.delete();
+          }
+        } catch (e) {
+          face.delete();
+          throw e;
+        } finally {
+          surface?.delete();
+        }
+      }
+    } catch (e) {
+      ret.forEach((face) => face.delete());
+      throw e;
+    } finally {
+      map?.delete();
+      tagFaces.forEach((faceMap) => faceMap.delete());
+    }
+    return ret;
+  }
+
+  /**
+   * Tag the faces of a new body that were generated from the edges of a tagged path
+   *
+   * @param wirePen the pen with the path.  Its wire must be the last one made for
+   *      the path.
+   * @param algo the algorithm that made the body from the wire
+   * @param fallback gets the faces generated by edges that `algo` doesn't report
+   */
+  private tagGeneratedFaces(
+    id: BodyID,
+    wirePen: OCWirePen,
+    index: number,
+    algo: BRepBuilderAPI_MakeShape,
+    fallback?: (edge: TopoDS_Edge) => TopoDS_Shape[]
+  ): void {
+    const tag = wirePen.wireTag(index);
+    if (tag === null) {
+      return;
+    }
+    const faces: TopoDS_Shape[] = [];
+    for (const edge of wirePen.builtWireEdges(index)) {
+      const generated = this.takeFaces(algo.Generated(edge));
+      faces.push(
+        ...(generated.length || !fallback ? generated : fallback(edge))
+      );
+    }
+    if (!faces.length) {
+      return;
+    }
+    let tags = this.faceTags.get(id);
+    if (!tags) {
+      tags = new Map<string, TopoDS_Shape[]>();
+      this.faceTags.set(id, tags);
+    }
+    tags.set(tag, [...(tags.get(tag) ?? []), ...faces]);
+  }
+
+  /**
+   * Replace the tagged faces of a body with the faces that the tagged faces of the
+   * source bodies became in the result of an operation
+   *
+   * @param sourceIds bodies that were the inputs to the operation.  This can include
+   *      `id`.
+   * @param algo the operation, or undefined if the faces are unchanged
+   */
+  private updateTags(
+    id: BodyID,
+    sourceIds: BodyID[],
+    algo?: BRepBuilderAPI_MakeShape
+  ): void {
+    const newTags = new Map<string, TopoDS_Shape[]>();
+    for (const sourceId of sourceIds) {
+      for (const [tag, faces] of this.faceTags.get(sourceId) ?? []) {
+        const newFaces = newTags.get(tag) ?? [];
+        for (const face of faces) {
+          if (!algo) {
+            newFaces.push(face.Oriented(face.Orientation_1()));
+            continue;
+          }
+          if (algo.IsDeleted(face)) {
+            continue;
+          }
+          const modified = this.takeFaces(algo.Modified(face));
+          if (modified.length) {
+            newFaces.push(...modified);
+          } else {
+            newFaces.push(face.Oriented(face.Orientation_1()));
+          }
+        }
+        if (newFaces.length) {
+          newTags.set(tag, newFaces);
+        }
+      }
+    }
+    this.deleteTags(id);
+    if (newTags.size) {
+      this.faceTags.set(id, newTags);
+    }
+  }
+
+  private deleteTags(id: BodyID): void {
+    for (const faces of this.faceTags.get(id)?.values() ?? []) {
+      faces.forEach((face) => face.delete());
+    }
+    this.faceTags.delete(id);
+  }
+
+  /**
+   * Get the faces from a list of shapes, and delete the list
+   */
+  private takeFaces(list: TopTools_ListOfShape): TopoDS_Shape[] {
+    const ret: TopoDS_Shape[] = [];
+    try {
+      while (list.Size() > 0) {
+        const shape = list.First_1();
+        list.RemoveFirst();
+        if (
+          shape.ShapeType() ===
+          (this.oc.TopAbs_ShapeEnum.TopAbs_FACE as TopAbs_ShapeEnum)
+        ) {
+          ret.push(shape);
+        } else {
+          shape.delete();
+        }
+      }
+    } finally {
+      list.delete();
+    }
+    return ret;
+  }
+
   compound(ids: BodyID[]): BodyID {
     if (ids.length === 1) {
       return ids[0];
@@ -450,6 +1530,7 @@ export class OCBodyShaper implements Shaper3D {
       this.shapes.set(id, compound);
       compound = undefined; // prevent double delete
       this.meshes.delete(id);
+      this.updateTags(id, ids);
       return id;
     } finally {
       builder?.delete();
@@ -458,6 +1539,190 @@ export class OCBodyShaper implements Shaper3D {
   }
 }
 
+/**
+ * Get a unit vector perpendicular to the given one
+ */
+function perpendicular(x: number, y: number, z: number): Point3D {
+  // cross with the axis that the vector is least aligned with
+  let ret: Point3D;
+  if (Math.abs(x) <= Math.abs(y) && Math.abs(x) <= Math.abs(z)) {
+    ret = [0, z, -y];
+  } else if (Math.abs(y) <= Math.abs(z)) {
+    ret = [-z, 0, x];
+  } else {
+    ret = [y, -x, 0];
+  }
+  const mag = Math.sqrt(ret[0] * ret[0] + ret[1] * ret[1] + ret[2] * ret[2]);
+  return [ret[0] / mag, ret[1] / mag, ret[2] / mag];
+}
+
+/**
+ * Check whether an edge matches a selector
+ *
+ * @param points sample points along the edge, including its end points
+ * @param isLine true if the edge is straight
+ * @param hasTag check whether the edge is on a face with the given tag
+ */
+function edgeMatches(
+  selector: EdgeSelector,
+  points: Point3D[],
+  isLine: boolean,
+  hasTag: (tag: string) => boolean
+): boolean {
+  switch (selector.type) {
+    case 'all':
+      return true;
+    case 'plane':
+      return pointsInPlane(
+        points,
+        selector.plane,
+        selector.position,
+        'edge selector'
+      );
+    case 'parallel': {
+      const dir = selector.direction;
+      const edgeDir = sub(points[points.length - 1], points[0]);
+      const c = cross(dir, edgeDir);
+      return (
+        isLine &&
+        Math.sqrt(dot(c, c)) <=
+          Math.sqrt(dot(dir, dir) * dot(edgeDir, edgeDir)) *
+            EDGE_SELECT_TOLERANCE
+      );
+    }
+    case 'box':
+      return pointsInBox(
+        points,
+        selector.min,
+        selector.max,
+        selector.xform,
+        'edge selector'
+      );
+    case 'tag':
+      return hasTag(selector.tag);
+    case 'and':
+      return selector.selectors.every((s) =>
+        edgeMatches(s, points, isLine, hasTag)
+      );
+    case 'or':
+      return selector.selectors.some((s) =>
+        edgeMatches(s, points, isLine, hasTag)
+      );
+  }
+}
+
+function faceMatches(
+  selector: FaceSelector,
+  points: Point3D[],
+  hasTag: (tag: string) => boolean
+): boolean {
+  switch (selector.type) {
+    case 'plane':
+      return pointsInPlane(
+        points,
+        selector.plane,
+        selector.position,
+        'face selector'
+      );
+    case 'box':
+      return pointsInBox(
+        points,
+        selector.min,
+        selector.max,
+        selector.xform,
+        'face selector'
+      );
+    case 'tag':
+      return hasTag(selector.tag);
+    case 'and':
+      return selector.selectors.every((s) => faceMatches(s, points, hasTag));
+    case 'or':
+      return selector.selectors.some((s) => faceMatches(s, points, hasTag));
+  }
+}
+
+/**
+ * Determine whether all the points lie in a plane that is placed like a sketch
+ *
+ * @param what the kind of selector, for error messages
+ */
+function pointsInPlane(
+  points: Point3D[],
+  plane: XForm3D,
+  position: Point3D | undefined,
+  what: string
+): boolean {
+  const [px, py, pz] = position ?? [0, 0, 0];
+  const xform = ID3D.translate(px, py, pz).mapXForm(plane);
+  const origin = xform.mapPoint(0, 0, 0);
+  const u = sub(xform.mapPoint(1, 0, 0), origin);
+  const v = sub(xform.mapPoint(0, 1, 0), origin);
+  const normal = cross(u, v);
+  const len = Math.sqrt(dot(normal, normal));
+  if (!(len > 0)) {
+    throw new Error(`Invalid plane in ${what}`);
+  }
+  return points.every(
+    (p) => Math.abs(dot(sub(p, origin), normal)) <= len * EDGE_SELECT_TOLERANCE
+  );
+}
+
+/**
+ * Determine whether all the points are inside a box, which may be transformed
+ *
+ * @param what the kind of selector, for error messages
+ */
+function pointsInBox(
+  points: Point3D[],
+  min: Point3D,
+  max: Point3D,
+  xform: XForm3D | undefined,
+  what: string
+): boolean {
+  let local = points;
+  if (xform) {
+    // map the points into the box coordinates
+    const origin = xform.mapPoint(0, 0, 0);
+    const u = sub(xform.mapPoint(1, 0, 0), origin);
+    const v = sub(xform.mapPoint(0, 1, 0), origin);
+    const w = sub(xform.mapPoint(0, 0, 1), origin);
+    const vw = cross(v, w);
+    const wu = cross(w, u);
+    const uv = cross(u, v);
+    const det = dot(u, vw);
+    if (!det) {
+      throw new Error(`Invalid transform in ${what}`);
+    }
+    local = points.map((p) => {
+      const d = sub(p, origin);
+      return [dot(d, vw) / det, dot(d, wu) / det, dot(d, uv) / det];
+    });
+  }
+  return local.every((p) =>
+    p.every(
+      (x, i) =>
+        x >= min[i] - EDGE_SELECT_TOLERANCE &&
+        x <= max[i] + EDGE_SELECT_TOLERANCE
+    )
+  );
+}
+
+function sub(a: Point3D, b: Point3D): Point3D {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Point3D, b: Point3D): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Point3D, b: Point3D): Point3D {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
 class MakeCCWPen implements Pen2D {
   private target: Pen2D;
   private recorder: RecordingPen2D;
@@ -24,6 +24,9 @@ export class OCWirePen implements Pen3D {
   private havePoint: boolean;
   private haveWire: boolean;
   private wireEdges: TopoDS_Edge[][] = [];
+  private wireTags: (string | null)[] = [];
+  private builtEdges: TopoDS_Edge[][] = [];
+  private tag: string | null = null;
   private makeHoles: boolean;
   constructor(oc: OpenCascadeInstance, makeHoles: boolean) {
     this.oc = oc;
@@ -38,6 +41,22 @@ export class OCWirePen implements Pen3D {
     return this.wireEdges.length;
   }
 
+  /**
+   * Get the tag that the path at `index` was started with
+   */
+  wireTag(index: number): string | null {
+    return this.wireTags[index] ?? null;
+  }
+
+  /**
+   * Get the edges of the last wire made for the path at `index`.  The wire builder
+   * replaces the drawn edges with connected ones, so these are the edges that
+   * faces and solids made from the wire are generated from.
+   */
+  builtWireEdges(index: number): readonly TopoDS_Edge[] {
+    return this.builtEdges[index] ?? [];
+  }
+
   delete(): void {
     for (const wire of this.wireEdges) {
       for (const edge of wire) {
@@ -45,6 +64,10 @@ export class OCWirePen implements Pen3D {
       }
     }
     this.wireEdges.length = 0;
+    this.wireTags.length = 0;
+    this.deleteBuiltEdges();
+    this.builtEdges.length = 0;
+    this.tag = null;
     this.havePoint = this.haveWire = false;
     this.tx = this.ty = this.tz = 0;
   }
@@ -85,6 +108,10 @@ export class OCWirePen implements Pen3D {
     return face;
   }
 
+  makePathWire(index: number): TopoDS_Wire {
+    return this.makeWire(index);
+  }
+
   private shouldReverseNext(): boolean {
     if (!this.makeHoles) {
       return false;
@@ -98,9 +125,13 @@ export class OCWirePen implements Pen3D {
     if (index >= this.wireEdges.length) {
       throw new Error(`Wire index ${index} out of bounds`);
     }
+    this.deleteBuiltEdges(index);
+    const built: TopoDS_Edge[] = [];
+    this.builtEdges[index] = built;
     const wire = new this.oc.BRepBuilderAPI_MakeWire_1();
     for (const edge of this.wireEdges[index]) {
       wire.Add_1(edge);
+      built.push(wire.Edge());
     }
     const ret = wire.Wire();
     wire.delete();
@@ -111,28 +142,45 @@ export class OCWirePen implements Pen3D {
     if (index >= this.wireEdges.length) {
       throw new Error(`Wire index ${index} out of bounds`);
     }
+    this.deleteBuiltEdges(index);
+    const built: TopoDS_Edge[] = [];
+    this.builtEdges[index] = built;
     const wire = new this.oc.BRepBuilderAPI_MakeWire_1();
     for (let i = this.wireEdges[index].length - 1; i >= 0; --i) {
       const edge = this.wireEdges[index][i];
       wire.Add_1(edge);
+      built.push(wire.Edge());
     }
     const ret = wire.Wire();
     wire.delete();
     return ret;
   }
 
+  private deleteBuiltEdges(index?: number): void {
+    const lists =
+      index === undefined ? this.builtEdges : [this.builtEdges[index] ?? []];
+    for (const edges of lists) {
+      for (const edge of edges) {
+        edge.delete();
+      }
+      edges.length = 0;
+    }
+  }
+
   private addEdge(edge: TopoDS_Edge): void {
     if (!this.haveWire) {
       this.wireEdges.push([]);
+      this.wireTags.push(this.tag);
       this.haveWire = true;
     }
     this.wireEdges[this.wireEdges.length - 1].push(edge);
   }
 
-  move(x: number, y: number, z: number): void {
+  move(x: number, y: number, z: number, tag?: string | null | undefined): void {
     this.tx = x;
     this.ty = y;
     this.tz = z;
+    this.tag = tag ?? null;
     this.havePoint = true;
     this.haveWire = false;
   }
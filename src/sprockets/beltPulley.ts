@@ -0,0 +1,326 @@
+import { DEGREE, ID2D, Point2D, Sketch } from '../geom/index.js';
+import {
+  circleIntersections,
+  drawRotatedCopies,
+  PathBuilder,
+  pointToward,
+} from './geometry.js';
+
+/**
+ * Shape of the teeth on a timing belt.  The pulley grooves are the same shape as
+ * the belt teeth.  All dimensions are in mm.
+ */
+export type BeltToothProfile = CurvilinearBeltTooth | TrapezoidalBeltTooth;
+
+interface BeltToothBase {
+  /** Distance between teeth along the belt's pitch line */
+  readonly pitch: number;
+  /**
+   * Distance from the belt's pitch line (the center of its tension cords) to the
+   * land between the teeth.  The pulley's outside diameter is this much smaller than
+   * its pitch diameter on each side.
+   */
+  readonly pitchLineDifferential: number;
+  /** Height of the teeth above the land */
+  readonly toothHeight: number;
+  /** Radius of the fillets between the teeth and the land */
+  readonly rootRadius: number;
+}
+
+/** Round teeth, like GT2 and HTD belts */
+export interface CurvilinearBeltTooth extends BeltToothBase {
+  readonly type: 'curvilinear';
+  /** Radius of the arc at the tip of the tooth */
+  readonly tipRadius: number;
+  /**
+   * Radius of the flank arcs.  Each flank arc is centered on the land line, and is
+   * tangent to the tip arc.  If this is undefined, then the flanks are continuations
+   * of the tip arc.
+   */
+  readonly flankRadius?: number | undefined;
+}
+
+/** Straight-sided teeth with flat tips, like T and AT belts */
+export interface TrapezoidalBeltTooth extends BeltToothBase {
+  readonly type: 'trapezoidal';
+  /** Width of the tooth where its flanks meet the land */
+  readonly rootWidth: number;
+  /** Angle in degrees between the two flanks of a tooth */
+  readonly flankAngle: number;
+}
+
+/**
+ * Nominal tooth profiles for common timing belts
+ */
+export const BELT_PROFILES = {
+  'GT2-2mm': {
+    type: 'curvilinear',
+    pitch: 2,
+    pitchLineDifferential: 0.254,
+    toothHeight: 0.75,
+    tipRadius: 0.555,
+    flankRadius: 1,
+    rootRadius: 0.15,
+  },
+  'GT2-3mm': {
+    type: 'curvilinear',
+    pitch: 3,
+    pitchLineDifferential: 0.381,
+    toothHeight: 1.14,
+    tipRadius: 0.85,
+    flankRadius: 1.52,
+    rootRadius: 0.25,
+  },
+  'HTD-3M': {
+    type: 'curvilinear',
+    pitch: 3,
+    pitchLineDifferential: 0.381,
+    toothHeight: 1.17,
+    tipRadius: 0.85,
+    rootRadius: 0.25,
+  },
+  'HTD-5M': {
+    type: 'curvilinear',
+    pitch: 5,
+    pitchLineDifferential: 0.5715,
+    toothHeight: 2.06,
+    tipRadius: 1.49,
+    rootRadius: 0.43,
+  },
+  T5: {
+    type: 'trapezoidal',
+    pitch: 5,
+    pitchLineDifferential: 0.5,
+    toothHeight: 1.2,
+    rootWidth: 2.65,
+    flankAngle: 40,
+    rootRadius: 0.4,
+  },
+} as const satisfies Record<string, BeltToothProfile>;
+
+export type BeltProfileName = keyof typeof BELT_PROFILES;
+
+export interface BeltPulleyProps {
+  readonly teeth: number;
+  /** The name of a standard belt profile, or a custom one */
+  readonly profile: BeltProfileName | BeltToothProfile;
+  /**
+   * Extra space around the belt teeth in the pulley grooves, to compensate for
+   * printer tolerances.  The groove is offset outward by this distance, so the
+   * grooves get wider by 2 * `clearance` and deeper by `clearance`.  Default 0
+   */
+  readonly clearance?: number | undefined;
+  /**
+   * Amount to add to the outside diameter of the pulley, to compensate for
+   * printers that make outside diameters too large or too small.  Default 0
+   */
+  readonly diameterOffset?: number | undefined;
+  /** Diameter of the hole in the center of the pulley.  Default is no hole */
+  readonly boreDiameter?: number | undefined;
+}
+
+export interface BeltPulleyResult {
+  /**
+   * The pulley, centered on the origin, with a groove on the +x axis.  If there is
+   * a bore, it is the second outline.
+   */
+  readonly pulley: Sketch;
+  /** Diameter of the belt's pitch line where it wraps around the pulley */
+  readonly pitchDiameter: number;
+  /** Diameter of the circle through the lands between the grooves */
+  readonly outerDiameter: number;
+  /** Diameter of the circle through the bottoms of the grooves */
+  readonly rootDiameter: number;
+}
+
+/**
+ * Create a pulley for a timing belt.
+ *
+ * Each groove has the shape of a belt tooth, standing on the pulley's outside
+ * circle with its center line along a radius.
+ */
+export function createBeltPulley(props: BeltPulleyProps): BeltPulleyResult {
+  const n = props.teeth;
+  const profile: BeltToothProfile =
+    typeof props.profile == 'string'
+      ? BELT_PROFILES[props.profile]
+      : props.profile;
+  const clearance = props.clearance ?? 0;
+  const boreDiameter = props.boreDiameter ?? 0;
+  if (!profile) {
+    throw new Error(`Unknown belt profile ${props.profile}`);
+  }
+  if (!(Number.isInteger(n) && n >= 3)) {
+    throw new Error(`Invalid number of teeth ${n}`);
+  }
+  if (!(clearance >= 0)) {
+    throw new Error(`Invalid clearance ${clearance}`);
+  }
+  const pitchDiameter = (n * profile.pitch) / Math.PI;
+  const outerDiameter =
+    pitchDiameter -
+    2 * profile.pitchLineDifferential +
+    (props.diameterOffset ?? 0);
+  const R = outerDiameter / 2;
+  const rootRadius = R - profile.toothHeight - clearance;
+  if (!(rootRadius > boreDiameter / 2)) {
+    throw new Error('The grooves are too deep for the pulley');
+  }
+
+  // Make the groove on the +x axis, as a path from the lower side of the groove
+  // to the lower side of the next one
+  const [start, end, groove] =
+    profile.type == 'curvilinear'
+      ? curvilinearGroove(R, profile, clearance)
+      : trapezoidalGroove(R, profile, clearance);
+  if (Math.atan2(end[1], end[0]) >= Math.PI / n) {
+    throw new Error(
+      `The grooves don't fit on a pulley with ${n} teeth.  Use more teeth or less clearance`
+    );
+  }
+  // the land between this groove and the next
+  groove.arcTo([0, 0], ID2D.rotate(360 / n).mapPoint(...start), true);
+  const segments = groove.segments;
+
+  return {
+    pulley: (pen) => {
+      drawRotatedCopies(pen, start, segments, n);
+      if (boreDiameter > 0) {
+        pen.circle(0, 0, boreDiameter);
+      }
+    },
+    pitchDiameter,
+    outerDiameter,
+    rootDiameter: rootRadius * 2,
+  };
+}
+
+/**
+ * Make a groove for a curvilinear tooth, centered on the +x axis, with its land
+ * at radius R
+ *
+ * @returns the start and end of the groove on the outside circle, and a builder with
+ *      the path from start to end
+ */
+function curvilinearGroove(
+  R: number,
+  profile: CurvilinearBeltTooth,
+  clearance: number
+): [Point2D, Point2D, PathBuilder] {
+  const { toothHeight, tipRadius, flankRadius } = profile;
+  const filletR = Math.max(profile.rootRadius - clearance, 0);
+  const tipR = tipRadius + clearance;
+  const tipCenter: Point2D = [R - toothHeight + tipRadius, 0];
+  // The flank circles are centered on the land line on the opposite side of the
+  // groove, and internally tangent to the tip circle.  Offsetting both circles
+  // by the clearance keeps them tangent.
+  let lowerFlank: Point2D = tipCenter;
+  let upperFlank: Point2D = tipCenter;
+  let flankR = tipR;
+  if (flankRadius != undefined) {
+    const dr = flankRadius - tipRadius;
+    const dy = toothHeight - tipRadius;
+    if (!(dr > dy && dy >= 0)) {
+      throw new Error('Invalid belt tooth profile');
+    }
+    const offset = Math.sqrt(dr * dr - dy * dy);
+    lowerFlank = [R, offset];
+    upperFlank = [R, -offset];
+    flankR = flankRadius + clearance;
+  }
+  // fillets touch the outside circle and the flank circles
+  const lowerFillet = circleIntersections(
+    [0, 0],
+    R - filletR,
+    lowerFlank,
+    flankR + filletR
+  );
+  if (!lowerFillet) {
+    throw new Error('The grooves are too large for the pulley');
+  }
+  const filletCenter =
+    lowerFillet[0][1] < lowerFillet[1][1] ? lowerFillet[0] : lowerFillet[1];
+  const mirror = (p: Point2D): Point2D => [p[0], -p[1]];
+
+  const start = pointToward([0, 0], filletCenter, R);
+  const flankStart = pointToward(lowerFlank, filletCenter, flankR);
+  const flankEnd = pointToward(lowerFlank, tipCenter, flankR);
+  const path = new PathBuilder(start);
+  path.arcTo(filletCenter, flankStart, true);
+  if (flankRadius != undefined) {
+    path.arcTo(lowerFlank, flankEnd, false);
+    path.arcTo(tipCenter, mirror(flankEnd), false);
+    path.arcTo(upperFlank, mirror(flankStart), false);
+  } else {
+    path.arcTo(tipCenter, mirror(flankStart), false);
+  }
+  path.arcTo(mirror(filletCenter), mirror(start), true);
+  return [start, mirror(start), path];
+}
+
+/**
+ * Make a groove for a trapezoidal tooth, centered on the +x axis, with its land
+ * at radius R
+ *
+ * @returns the start and end of the groove on the outside circle, and a builder with
+ *      the path from start to end
+ */
+function trapezoidalGroove(
+  R: number,
+  profile: TrapezoidalBeltTooth,
+  clearance: number
+): [Point2D, Point2D, PathBuilder] {
+  const { toothHeight, rootWidth, flankAngle } = profile;
+  const filletR = Math.max(profile.rootRadius - clearance, 0);
+  const half = (flankAngle * DEGREE) / 2;
+  if (!(half >= 0 && half < Math.PI / 2)) {
+    throw new Error(`Invalid belt tooth flank angle ${flankAngle}`);
+  }
+  // The lower flank goes inward from the land, toward the groove center line.
+  // The normal points out of the groove.
+  const dir: Point2D = [-Math.cos(half), Math.sin(half)];
+  const normal: Point2D = [-Math.sin(half), -Math.cos(half)];
+  const flankPoint: Point2D = [
+    R + normal[0] * clearance,
+    -rootWidth / 2 + normal[1] * clearance,
+  ];
+  const bottomX = R - toothHeight - clearance;
+  const t = (bottomX - flankPoint[0]) / dir[0];
+  const bottom: Point2D = [
+    flankPoint[0] + dir[0] * t,
+    flankPoint[1] + dir[1] * t,
+  ];
+  if (!(bottom[1] < 0)) {
+    throw new Error('Invalid belt tooth profile');
+  }
+  // The fillet center is filletR from the flank and R - filletR from the origin.
+  // Find it along the offset flank line.
+  const ox = flankPoint[0] + normal[0] * filletR;
+  const oy = flankPoint[1] + normal[1] * filletR;
+  const rr = R - filletR;
+  // solve |o + s*dir| = rr for the solution nearest to the land
+  const b = ox * dir[0] + oy * dir[1];
+  const c = ox * ox + oy * oy - rr * rr;
+  const disc = b * b - c;
+  if (disc < 0) {
+    throw new Error('The grooves are too large for the pulley');
+  }
+  const s0 = -b - Math.sqrt(disc);
+  const s1 = -b + Math.sqrt(disc);
+  const s = Math.abs(s0) < Math.abs(s1) ? s0 : s1;
+  const filletCenter: Point2D = [ox + dir[0] * s, oy + dir[1] * s];
+  const mirror = (p: Point2D): Point2D => [p[0], -p[1]];
+
+  const start = pointToward([0, 0], filletCenter, R);
+  const flankStart: Point2D = [
+    filletCenter[0] - normal[0] * filletR,
+    filletCenter[1] - normal[1] * filletR,
+  ];
+  const path = new PathBuilder(start);
+  path.arcTo(filletCenter, flankStart, true);
+  path.lineTo(bottom);
+  path.lineTo(mirror(bottom));
+  path.lineTo(mirror(flankStart));
+  path.arcTo(mirror(filletCenter), mirror(start), true);
+  return [start, mirror(start), path];
+}
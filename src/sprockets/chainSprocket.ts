@@ -0,0 +1,155 @@
+import { ID2D, Point2D, Sketch } from '../geom/index.js';
+import {
+  circleIntersections,
+  drawRotatedCopies,
+  PathBuilder,
+  pointToward,
+} from './geometry.js';
+
+const INCH = 25.4;
+
+/** Dimensions of a roller chain, in mm */
+export interface RollerChain {
+  /** Distance between the centers of adjacent rollers */
+  readonly pitch: number;
+  readonly rollerDiameter: number;
+}
+
+/**
+ * Standard ANSI roller chains.  Chains without rollers use the bushing diameter.
+ */
+export const ANSI_CHAINS = {
+  '25': { pitch: 0.25 * INCH, rollerDiameter: 0.13 * INCH },
+  '35': { pitch: 0.375 * INCH, rollerDiameter: 0.2 * INCH },
+  '40': { pitch: 0.5 * INCH, rollerDiameter: 0.312 * INCH },
+  '41': { pitch: 0.5 * INCH, rollerDiameter: 0.306 * INCH },
+  '50': { pitch: 0.625 * INCH, rollerDiameter: 0.4 * INCH },
+  '60': { pitch: 0.75 * INCH, rollerDiameter: 0.469 * INCH },
+  '80': { pitch: 1 * INCH, rollerDiameter: 0.625 * INCH },
+  '100': { pitch: 1.25 * INCH, rollerDiameter: 0.75 * INCH },
+} as const satisfies Record<string, RollerChain>;
+
+export type ANSIChainNumber = keyof typeof ANSI_CHAINS;
+
+export interface ChainSprocketProps {
+  readonly teeth: number;
+  /** The ANSI chain number, or custom chain dimensions */
+  readonly chain: ANSIChainNumber | RollerChain;
+  /**
+   * Extra space around the rollers, to compensate for printer tolerances.  The tooth
+   * spaces are offset outward by this distance.  Default 0
+   */
+  readonly clearance?: number | undefined;
+  /**
+   * Amount to add to the outside diameter of the sprocket, to compensate for
+   * printers that make outside diameters too large or too small.  Default 0
+   */
+  readonly diameterOffset?: number | undefined;
+  /** Diameter of the hole in the center of the sprocket.  Default is no hole */
+  readonly boreDiameter?: number | undefined;
+}
+
+export interface ChainSprocketResult {
+  /**
+   * The sprocket, centered on the origin, with a tooth space on the +x axis.  If
+   * there is a bore, it is the second outline.
+   */
+  readonly sprocket: Sketch;
+  /** Diameter of the circle through the roller centers */
+  readonly pitchDiameter: number;
+  /** Diameter of the circle through the tooth tips */
+  readonly outerDiameter: number;
+  /** Diameter of the circle through the bottoms of the tooth spaces */
+  readonly rootDiameter: number;
+}
+
+/**
+ * Create a sprocket for a roller chain.
+ *
+ * The rollers sit in seating curves with the ANSI diameter of
+ * 1.005 * roller diameter + 0.003".  Each tooth flank is an arc centered on the
+ * next roller, so that a roller can swing out of its seat around its neighbor.
+ * The teeth are cut off at the ANSI outside diameter of
+ * pitch * (0.6 + cot(180° / teeth)).
+ */
+export function createChainSprocket(
+  props: ChainSprocketProps
+): ChainSprocketResult {
+  const n = props.teeth;
+  const chain: RollerChain =
+    typeof props.chain == 'string' ? ANSI_CHAINS[props.chain] : props.chain;
+  const clearance = props.clearance ?? 0;
+  const boreDiameter = props.boreDiameter ?? 0;
+  if (!chain) {
+    throw new Error(`Unknown chain ${props.chain}`);
+  }
+  const { pitch, rollerDiameter } = chain;
+  if (!(Number.isInteger(n) && n >= 5)) {
+    throw new Error(`Invalid number of teeth ${n}`);
+  }
+  if (!(rollerDiameter > 0 && rollerDiameter < pitch)) {
+    throw new Error('Roller diameter must be positive and less than the pitch');
+  }
+  if (!(clearance >= 0)) {
+    throw new Error(`Invalid clearance ${clearance}`);
+  }
+  const halfAngle = Math.PI / n;
+  const pitchDiameter = pitch / Math.sin(halfAngle);
+  const seatR = (1.005 * rollerDiameter + 0.003 * INCH) / 2 + clearance;
+  const flankR = pitch - seatR;
+  const rootDiameter = pitchDiameter - seatR * 2;
+  if (!(flankR > seatR)) {
+    throw new Error('Too much clearance for the chain pitch');
+  }
+  if (!(rootDiameter > boreDiameter)) {
+    throw new Error('The bore is too large for the sprocket');
+  }
+  let outerDiameter =
+    pitch * (0.6 + 1 / Math.tan(halfAngle)) + (props.diameterOffset ?? 0);
+
+  // The tooth space on the +x axis, and the tooth after it
+  const seat: Point2D = [pitchDiameter / 2, 0];
+  const prevSeat = ID2D.rotate(-360 / n).mapPoint(...seat);
+  const nextSeat = ID2D.rotate(360 / n).mapPoint(...seat);
+  const start = pointToward(seat, prevSeat, seatR);
+  const seatEnd = pointToward(seat, nextSeat, seatR);
+  const path = new PathBuilder(start);
+  path.arcTo(seat, seatEnd, false);
+
+  // The tooth tip is on the outside circle, unless the flanks meet first.  Flank
+  // circles with radius > pitch / 2 always meet.
+  const point = circleIntersections(seat, flankR, nextSeat, flankR)![0];
+  const pointRadius = Math.sqrt(point[0] * point[0] + point[1] * point[1]);
+  const flankTip =
+    outerDiameter / 2 < pointRadius
+      ? circleIntersections([0, 0], outerDiameter / 2, nextSeat, flankR)?.[0]
+      : undefined;
+  if (flankTip && Math.atan2(flankTip[1], flankTip[0]) < halfAngle) {
+    // reflect across the tooth center line
+    const c = Math.cos(halfAngle * 2);
+    const s = Math.sin(halfAngle * 2);
+    path.arcTo(nextSeat, flankTip, true);
+    path.arcTo(
+      [0, 0],
+      [flankTip[0] * c + flankTip[1] * s, flankTip[0] * s - flankTip[1] * c],
+      true
+    );
+  } else {
+    outerDiameter = pointRadius * 2;
+    path.arcTo(nextSeat, point, true);
+  }
+  path.arcTo(seat, pointToward(nextSeat, seat, seatR), true);
+  const segments = path.segments;
+
+  return {
+    sprocket: (pen) => {
+      drawRotatedCopies(pen, start, segments, n);
+      if (boreDiameter > 0) {
+        pen.circle(0, 0, boreDiameter);
+      }
+    },
+    pitchDiameter,
+    outerDiameter,
+    rootDiameter,
+  };
+}
@@ -0,0 +1,117 @@
+import { DEGREE, ID2D, Pen2D, Point2D } from '../geom/index.js';
+
+/**
+ * Get the turn in degrees for an arc around a center from one point to another
+ *
+ * @param ccw true if the arc goes counter-clockwise around the center
+ */
+export function arcTurn(
+  center: Point2D,
+  from: Point2D,
+  to: Point2D,
+  ccw: boolean
+): number {
+  const ax = from[0] - center[0];
+  const ay = from[1] - center[1];
+  const bx = to[0] - center[0];
+  const by = to[1] - center[1];
+  let turn = Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+  if (ccw && turn < 0) {
+    turn += Math.PI * 2;
+  } else if (!ccw && turn > 0) {
+    turn -= Math.PI * 2;
+  }
+  return turn / DEGREE;
+}
+
+/**
+ * Find the intersections of two circles
+ *
+ * @returns the intersections, first on the right of the line from c0 to c1, and then
+ *      on the left, or undefined if the circles don't intersect
+ */
+export function circleIntersections(
+  c0: Point2D,
+  r0: number,
+  c1: Point2D,
+  r1: number
+): [Point2D, Point2D] | undefined {
+  const dx = c1[0] - c0[0];
+  const dy = c1[1] - c0[1];
+  const d2 = dx * dx + dy * dy;
+  const d = Math.sqrt(d2);
+  if (!(d > 0) || d > r0 + r1 || d < Math.abs(r0 - r1)) {
+    return undefined;
+  }
+  // distance along the center line, and from it
+  const a = (d2 + r0 * r0 - r1 * r1) / (2 * d);
+  const h = Math.sqrt(Math.max(r0 * r0 - a * a, 0));
+  const mx = c0[0] + (dx * a) / d;
+  const my = c0[1] + (dy * a) / d;
+  return [
+    [mx + (dy * h) / d, my - (dx * h) / d],
+    [mx - (dy * h) / d, my + (dx * h) / d],
+  ];
+}
+
+/**
+ * Get the point at a given distance from `from` toward `to`
+ */
+export function pointToward(from: Point2D, to: Point2D, dist: number): Point2D {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const len = Math.sqrt(dx * dx + dy * dy);
+  return [from[0] + (dx * dist) / len, from[1] + (dy * dist) / len];
+}
+
+/** A segment in a path, given as its end point and its turn in degrees, as for [[Pen2D.arc]] */
+export type PathSegment = [number, number, number];
+
+/**
+ * Draw a closed outline made of `count` copies of a path, rotated evenly around the
+ * origin.  The path must end at its start point rotated by 360/`count` degrees.
+ */
+export function drawRotatedCopies(
+  pen: Pen2D,
+  start: Point2D,
+  segments: readonly PathSegment[],
+  count: number
+): void {
+  pen.move(...start);
+  for (let i = 0; i < count; ++i) {
+    const rot = ID2D.rotate((i * 360) / count);
+    for (const [x, y, turn] of segments) {
+      const [px, py] = rot.mapPoint(x, y);
+      pen.arc(px, py, turn);
+    }
+  }
+}
+
+/**
+ * Builds a [[PathSegment]] list, skipping arcs that are too short to matter
+ */
+export class PathBuilder {
+  readonly segments: PathSegment[] = [];
+  private pos: Point2D;
+  constructor(start: Point2D) {
+    this.pos = start;
+  }
+
+  lineTo(p: Point2D): void {
+    this.add(p, 0);
+  }
+
+  arcTo(center: Point2D, p: Point2D, ccw: boolean): void {
+    this.add(p, arcTurn(center, this.pos, p, ccw));
+  }
+
+  private add(p: Point2D, turn: number) {
+    const dx = p[0] - this.pos[0];
+    const dy = p[1] - this.pos[1];
+    if (dx * dx + dy * dy < 1e-16) {
+      return;
+    }
+    this.segments.push([p[0], p[1], turn]);
+    this.pos = p;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './beltPulley.js';
+export * from './chainSprocket.js';
@@ -0,0 +1,229 @@
+import { FRONTVIEW, Part, TOPVIEW } from '../geom/index.js';
+
+const MM_PER_INCH = 25.4;
+// Distance that the groove cutter extends past the crests, in pitches
+const GROOVE_OVERRUN = 0.125;
+
+/** Pitches of ISO metric coarse threads, by nominal diameter, in mm */
+export const ISO_METRIC_COARSE_PITCHES: Readonly<Record<number, number>> = {
+  1: 0.25,
+  1.2: 0.25,
+  1.6: 0.35,
+  2: 0.4,
+  2.5: 0.45,
+  3: 0.5,
+  3.5: 0.6,
+  4: 0.7,
+  5: 0.8,
+  6: 1,
+  8: 1.25,
+  10: 1.5,
+  12: 1.75,
+  14: 2,
+  16: 2,
+  18: 2.5,
+  20: 2.5,
+  22: 2.5,
+  24: 3,
+  27: 3,
+  30: 3.5,
+  36: 4,
+};
+
+/** The most common pitches of ISO metric fine threads, by nominal diameter, in mm */
+export const ISO_METRIC_FINE_PITCHES: Readonly<Record<number, number>> = {
+  3: 0.35,
+  4: 0.5,
+  5: 0.5,
+  6: 0.75,
+  8: 1,
+  10: 1.25,
+  12: 1.25,
+  14: 1.5,
+  16: 1.5,
+  18: 1.5,
+  20: 1.5,
+  22: 1.5,
+  24: 2,
+  27: 2,
+  30: 2,
+  36: 3,
+};
+
+/**
+ * Unified thread sizes, with the major diameter in inches, and the threads per inch
+ * for UNC and UNF threads
+ */
+export const UNIFIED_THREAD_SIZES = {
+  '#2': { diameter: 0.086, unc: 56, unf: 64 },
+  '#3': { diameter: 0.099, unc: 48, unf: 56 },
+  '#4': { diameter: 0.112, unc: 40, unf: 48 },
+  '#5': { diameter: 0.125, unc: 40, unf: 44 },
+  '#6': { diameter: 0.138, unc: 32, unf: 40 },
+  '#8': { diameter: 0.164, unc: 32, unf: 36 },
+  '#10': { diameter: 0.19, unc: 24, unf: 32 },
+  '#12': { diameter: 0.216, unc: 24, unf: 28 },
+  '1/4': { diameter: 0.25, unc: 20, unf: 28 },
+  '5/16': { diameter: 0.3125, unc: 18, unf: 24 },
+  '3/8': { diameter: 0.375, unc: 16, unf: 24 },
+  '7/16': { diameter: 0.4375, unc: 14, unf: 20 },
+  '1/2': { diameter: 0.5, unc: 13, unf: 20 },
+  '9/16': { diameter: 0.5625, unc: 12, unf: 18 },
+  '5/8': { diameter: 0.625, unc: 11, unf: 18 },
+  '3/4': { diameter: 0.75, unc: 10, unf: 16 },
+  '7/8': { diameter: 0.875, unc: 9, unf: 14 },
+  '1': { diameter: 1, unc: 8, unf: 12 },
+} as const satisfies Record<
+  string,
+  { diameter: number; unc: number; unf: number }
+>;
+
+export type UnifiedThreadSize = keyof typeof UNIFIED_THREAD_SIZES;
+
+/**
+ * The size of a 60 degree thread, in mm
+ */
+export interface ThreadSpec {
+  /** Nominal major diameter */
+  readonly diameter: number;
+  /** Axial distance between adjacent threads */
+  readonly pitch: number;
+}
+
+export interface ThreadProps extends ThreadSpec {
+  /** Length of the thread along its axis */
+  readonly length: number;
+  /**
+   * If true, the thread is the tool to cut out of a part to make a threaded hole.
+   * Default false
+   */
+  readonly isInternal?: boolean | undefined;
+  /** Default false */
+  readonly isLeftHand?: boolean | undefined;
+  /**
+   * Diametral allowance for printed parts.  External threads are made smaller by
+   * this much, and internal threads are made larger, to compensate for printer
+   * tolerances.  Default 0
+   */
+  readonly allowance?: number | undefined;
+}
+
+export interface ThreadResult {
+  /**
+   * The thread, along the z axis from z=0 to z=length.  An external thread is a
+   * threaded rod.  An internal thread is the tool to cut out of a part, which fills
+   * the threaded hole.
+   */
+  readonly thread: Part;
+  /** Major diameter, including the allowance */
+  readonly majorDiameter: number;
+  /** Pitch diameter, including the allowance */
+  readonly pitchDiameter: number;
+  /** Minor diameter, including the allowance */
+  readonly minorDiameter: number;
+}
+
+/**
+ * Get the size of an ISO metric thread
+ *
+ * @param diameter nominal diameter in mm, e.g., 6 for M6
+ * @param fine true for the fine pitch, instead of the coarse pitch
+ */
+export function isoMetricThread(diameter: number, fine?: boolean): ThreadSpec {
+  const pitch = (fine ? ISO_METRIC_FINE_PITCHES : ISO_METRIC_COARSE_PITCHES)[
+    diameter
+  ];
+  if (pitch == undefined) {
+    throw new Error(
+      `No standard ${fine ? 'fine' : 'coarse'} pitch for M${diameter}`
+    );
+  }
+  return { diameter, pitch };
+}
+
+/**
+ * Get the size of a UNC or UNF thread, converted to mm
+ */
+export function unifiedThread(
+  size: UnifiedThreadSize,
+  series: 'UNC' | 'UNF'
+): ThreadSpec {
+  const spec = UNIFIED_THREAD_SIZES[size];
+  if (!spec) {
+    throw new Error(`Unknown unified thread size ${size}`);
+  }
+  const tpi = series === 'UNC' ? spec.unc : spec.unf;
+  return { diameter: spec.diameter * MM_PER_INCH, pitch: MM_PER_INCH / tpi };
+}
+
+/**
+ * Create an ISO metric or unified thread, with the basic 60 degree profile.
+ *
+ * The thread is made by cutting a helical groove out of a cylinder.  The groove has
+ * a flat bottom of 1/4 pitch at the minor diameter, which leaves flat crests of 1/8
+ * pitch at the major diameter.  Internal threads use the same profile, because the
+ * tool that cuts the hole has the shape of the mating external thread.
+ *
+ * Cutting the helical groove is slow.  An M6 x 10 thread takes about half a minute
+ * to build on one CPU core, and longer threads take longer.
+ */
+export function createThread(props: ThreadProps): ThreadResult {
+  const { diameter, pitch, length } = props;
+  const isInternal = props.isInternal ?? false;
+  const isLeftHand = props.isLeftHand ?? false;
+  const allowance = props.allowance ?? 0;
+  if (!(pitch > 0)) {
+    throw new Error(`Invalid thread pitch ${pitch}`);
+  }
+  if (!(length > 0)) {
+    throw new Error(`Invalid thread length ${length}`);
+  }
+  if (!(allowance >= 0)) {
+    throw new Error(`Invalid thread allowance ${allowance}`);
+  }
+  // height of the fundamental triangle
+  const H = (Math.sqrt(3) / 2) * pitch;
+  const offset = isInternal ? allowance : -allowance;
+  const majorDiameter = diameter + offset;
+  const pitchDiameter = diameter - H * 0.75 + offset;
+  const minorDiameter = diameter - H * 1.25 + offset;
+  if (!(minorDiameter > 0)) {
+    throw new Error(`Thread diameter ${diameter} is too small for its pitch`);
+  }
+
+  // The groove, in a plane through the axis.  Its flanks are 30 degrees from radial.
+  const rootR = minorDiameter / 2;
+  const outerR = majorDiameter / 2 + GROOVE_OVERRUN * pitch;
+  const rootHalfWidth = pitch / 8;
+  const outerHalfWidth =
+    rootHalfWidth + (outerR - rootR) * Math.tan(Math.PI / 6);
+
+  return {
+    thread: (shaper) => {
+      const rod = shaper.extrude(
+        TOPVIEW,
+        (pen) => pen.circle(0, 0, majorDiameter),
+        [0, 0, 0],
+        [0, 0, length]
+      );
+      // The groove runs past both ends, so that they're fully threaded
+      const groove = shaper.helixSweep(
+        FRONTVIEW,
+        (pen) => {
+          pen.move(rootR, -rootHalfWidth);
+          pen.line(outerR, -outerHalfWidth);
+          pen.line(outerR, outerHalfWidth);
+          pen.line(rootR, rootHalfWidth);
+        },
+        [0, 0, -pitch],
+        [0, 0, length + pitch],
+        isLeftHand ? -pitch : pitch
+      );
+      shaper.cut(rod, groove);
+      return [rod];
+    },
+    majorDiameter,
+    pitchDiameter,
+    minorDiameter,
+  };
+}